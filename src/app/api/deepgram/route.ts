@@ -1,9 +1,49 @@
 import { NextResponse } from "next/server";
+import { resolveIssuer } from "../../../lib/deepgram/issuer";
+import { authenticateRequest, unauthorizedResponse } from "../../../lib/supabase/server";
 
 export const dynamic = "force-dynamic";
 
-export async function GET() {
-    return NextResponse.json({
-      key: process.env.DEEPGRAM_API_KEY ?? "",
+// Keys a user may be issued per rolling hour; each recording session takes one
+const KEYS_PER_HOUR = Number(process.env.DEEPGRAM_KEYS_PER_HOUR) || 30;
+
+// Issues a short-lived key for one recording session to a signed-in user
+export async function POST(req: Request) {
+  const auth = await authenticateRequest(req);
+  if (!auth) return unauthorizedResponse();
+
+  const issuer = resolveIssuer();
+  if (!issuer) {
+    return NextResponse.json({ error: "Voice transcription isn't configured on this server." }, { status: 503 });
+  }
+
+  try {
+    const since = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+    const { count, error: countError } = await auth.supabase
+      .from("deepgram_keys")
+      .select("id", { count: "exact", head: true })
+      .gte("created_at", since);
+    if (countError) throw countError;
+    if ((count ?? 0) >= KEYS_PER_HOUR) {
+      return NextResponse.json(
+        { error: `You've started ${KEYS_PER_HOUR} recordings in the last hour. Try again later.` },
+        { status: 429, headers: { "Retry-After": "600" } }
+      );
+    }
+
+    const issued = await issuer.issue(auth.user.id);
+    const { error: insertError } = await auth.supabase.from("deepgram_keys").insert({
+      user_id: auth.user.id,
+      issuer: issuer.name,
+      key_id: issued.keyId,
+      scopes: issued.scopes,
+      expires_at: issued.expiresAt,
     });
+    if (insertError) throw insertError;
+
+    return NextResponse.json({ key: issued.key, expiresAt: issued.expiresAt, issuer: issuer.name });
+  } catch (error) {
+    console.error("Error issuing a Deepgram key:", error);
+    return NextResponse.json({ error: "Couldn't start a transcription session." }, { status: 502 });
+  }
 }
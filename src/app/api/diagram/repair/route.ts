@@ -0,0 +1,54 @@
+import { generateText } from "ai";
+import { NextResponse } from "next/server";
+import { badRequest, noProviderResponse, providerErrorResponse, readJsonBody } from "../../../../lib/llm/chat";
+import { parseLlmOptions } from "../../../../lib/llm/options";
+import { resolveModel } from "../../../../lib/llm/providers";
+import { buildRepairPrompt, extractMermaidSource, isParserError, REPAIR_SYSTEM_PROMPT } from "../../../../lib/mermaid/prompt";
+import { meterRequest } from "../../../../lib/usage/meter";
+
+export const runtime = "edge";
+
+export async function POST(req: Request) {
+  const meter = await meterRequest(req, "tokens");
+  if (meter instanceof Response) return meter;
+
+  const json = await readJsonBody(req);
+  if (!json) {
+    await meter.record({ ok: false });
+    return badRequest("The request body must be a JSON object.");
+  }
+  const { source, error, ...rest } = json;
+  if (typeof source !== "string" || !isParserError(error)) {
+    await meter.record({ ok: false });
+    return badRequest("`source` must be a string and `error` an object with a string `message`.");
+  }
+  const options = parseLlmOptions(rest);
+
+  const resolved = resolveModel(options);
+  if (!resolved) {
+    await meter.record({ ok: false });
+    return noProviderResponse(options);
+  }
+
+  try {
+    const { text, usage } = await generateText({
+      model: resolved.model,
+      system: REPAIR_SYSTEM_PROMPT,
+      prompt: buildRepairPrompt(source, error),
+      temperature: options.temperature,
+      maxTokens: options.maxTokens,
+    });
+    await meter.record({
+      provider: resolved.provider,
+      model: resolved.modelId,
+      inputTokens: usage.promptTokens,
+      outputTokens: usage.completionTokens,
+    });
+
+    return NextResponse.json({ mermaid: extractMermaidSource(text) });
+  } catch (err) {
+    console.error("Error repairing diagram:", err);
+    await meter.record({ provider: resolved.provider, model: resolved.modelId, ok: false });
+    return providerErrorResponse(err);
+  }
+}
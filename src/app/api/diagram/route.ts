@@ -0,0 +1,54 @@
+import { generateText } from "ai";
+import { NextResponse } from "next/server";
+import { badRequest, noProviderResponse, providerErrorResponse, readJsonBody } from "../../../lib/llm/chat";
+import { parseLlmOptions } from "../../../lib/llm/options";
+import { resolveModel } from "../../../lib/llm/providers";
+import { buildDiagramPrompt, DIAGRAM_SYSTEM_PROMPT, extractMermaidSource } from "../../../lib/mermaid/prompt";
+import { meterRequest } from "../../../lib/usage/meter";
+
+export const runtime = "edge";
+
+export async function POST(req: Request) {
+  const meter = await meterRequest(req, "tokens");
+  if (meter instanceof Response) return meter;
+
+  const json = await readJsonBody(req);
+  if (!json) {
+    await meter.record({ ok: false });
+    return badRequest("The request body must be a JSON object.");
+  }
+  const { heading, body, ...rest } = json;
+  if (typeof heading !== "string" || typeof body !== "string") {
+    await meter.record({ ok: false });
+    return badRequest("`heading` and `body` must be strings.");
+  }
+  const options = parseLlmOptions(rest);
+
+  const resolved = resolveModel(options);
+  if (!resolved) {
+    await meter.record({ ok: false });
+    return noProviderResponse(options);
+  }
+
+  try {
+    const { text, usage } = await generateText({
+      model: resolved.model,
+      system: DIAGRAM_SYSTEM_PROMPT,
+      prompt: buildDiagramPrompt(heading, body),
+      temperature: options.temperature,
+      maxTokens: options.maxTokens,
+    });
+    await meter.record({
+      provider: resolved.provider,
+      model: resolved.modelId,
+      inputTokens: usage.promptTokens,
+      outputTokens: usage.completionTokens,
+    });
+
+    return NextResponse.json({ mermaid: extractMermaidSource(text) });
+  } catch (error) {
+    console.error("Error generating diagram:", error);
+    await meter.record({ provider: resolved.provider, model: resolved.modelId, ok: false });
+    return providerErrorResponse(error);
+  }
+}
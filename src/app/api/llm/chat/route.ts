@@ -0,0 +1,7 @@
+import { handleChatRequest } from "../../../../lib/llm/chat";
+
+export const runtime = "edge";
+
+export async function POST(req: Request) {
+  return handleChatRequest(req);
+}
@@ -1,38 +1,68 @@
 import { NextResponse } from "next/server";
-import fs from "fs";
-import OpenAI from "openai";
+import OpenAI, { toFile } from "openai";
+import {
+  audioMimeTypes,
+  readTranscriptionUpload,
+  TranscriptionError,
+  transcriptionErrorResponse,
+  type TranscriptionUpload,
+} from "../../../../lib/audio/upload";
+import { meterRequest } from "../../../../lib/usage/meter";
 
 const openai = new OpenAI();
 
-export async function POST(req: Request) {
-  const body = await req.json();
-
-  const base64Audio = body.audio;
+const MODEL = "whisper-1";
 
-  // Convert the base64 audio data to a Buffer
-  const audio = Buffer.from(base64Audio, "base64");
+// What verbose_json returns; the SDK's type only describes the plain JSON response
+type VerboseTranscription = {
+  text: string;
+  language: string;
+  duration: number;
+  segments?: { start: number; end: number; text: string }[];
+  words?: { start: number; end: number; word: string }[];
+};
 
-  // Define the file path for storing the temporary WAV file
-  const filePath = "tmp/input.wav";
+// Transcribes an upload (see readTranscriptionUpload for the request format). Responds with
+// { text, language, duration, segments: [{ start, end, text }], words? } in seconds, or
+// { error, code } with a matching status.
+export async function POST(req: Request) {
+  const meter = await meterRequest(req, "audioSeconds");
+  if (meter instanceof Response) return meter;
 
+  let upload: TranscriptionUpload;
   try {
-    // Write the audio data to a temporary WAV file synchronously
-    fs.writeFileSync(filePath, audio);
+    upload = await readTranscriptionUpload(req);
+  } catch (error) {
+    if (error instanceof TranscriptionError) return transcriptionErrorResponse(error);
+    console.error("Error reading audio upload:", error);
+    return transcriptionErrorResponse(new TranscriptionError("The upload couldn't be read.", "invalid_upload", 400));
+  }
 
-    // Create a readable stream from the temporary WAV file
-    const readStream = fs.createReadStream(filePath);
+  try {
+    const result = (await openai.audio.transcriptions.create({
+      file: await toFile(upload.audio, `audio.${upload.format}`, { type: audioMimeTypes[upload.format] }),
+      model: MODEL,
+      language: upload.language,
+      prompt: upload.prompt,
+      response_format: "verbose_json",
+      timestamp_granularities: upload.timestamps === "word" ? ["segment", "word"] : ["segment"],
+    })) as unknown as VerboseTranscription;
 
-    const data = await openai.audio.transcriptions.create({
-      file: readStream,
-      model: "whisper-1",
+    await meter.record({ provider: "openai", model: MODEL, audioSeconds: result.duration ?? upload.duration ?? 0 });
+    return NextResponse.json({
+      text: result.text,
+      language: result.language,
+      duration: result.duration,
+      segments: (result.segments ?? []).map(({ start, end, text }) => ({ start, end, text: text.trim() })),
+      ...(upload.timestamps === "word" ? { words: result.words ?? [] } : {}),
     });
-
-    // Remove the temporary file after successful processing
-    fs.unlinkSync(filePath);
-
-    return NextResponse.json(data);
   } catch (error) {
-    console.error("Error processing audio:", error);
-    return NextResponse.error();
+    console.error("Error transcribing audio:", error);
+    await meter.record({ provider: "openai", model: MODEL, ok: false });
+    // The provider's rate limit passes through so clients know to back off
+    const status = error instanceof OpenAI.APIError && error.status === 429 ? 429 : 502;
+    return transcriptionErrorResponse(
+      new TranscriptionError("The transcription service couldn't process this audio.", "provider_error", status)
+    );
   }
 }
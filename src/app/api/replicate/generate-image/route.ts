@@ -1,5 +1,8 @@
 import { NextResponse } from "next/server";
 import Replicate from "replicate";
+import { meterRequest } from "../../../../lib/usage/meter";
+
+const IMAGE_MODEL = "stability-ai/stable-diffusion:db21e45d3f7023abc2a46ee38a23973f6dce16bb082a930b0c49861f96d1e5bf";
 
 const replicate = new Replicate({
   auth: process.env.REPLICATE_API_TOKEN,
@@ -12,11 +15,14 @@ export async function POST(request: Request) {
     );
   }
 
+  const meter = await meterRequest(request, "images");
+  if (meter instanceof Response) return meter;
+
   const { prompt } = await request.json();
 
   try {
     const output = await replicate.run(
-      "stability-ai/stable-diffusion:db21e45d3f7023abc2a46ee38a23973f6dce16bb082a930b0c49861f96d1e5bf",
+      IMAGE_MODEL,
       {
         input: {
           prompt: prompt,
@@ -29,9 +35,11 @@ export async function POST(request: Request) {
       }
     );
 
+    await meter.record({ provider: "replicate", model: IMAGE_MODEL, images: Array.isArray(output) ? output.length : 1 });
     return NextResponse.json({ output }, { status: 200 });
   } catch (error) {
     console.error("Error from Replicate API:", error);
+    await meter.record({ provider: "replicate", model: IMAGE_MODEL, ok: false });
     return NextResponse.json({ error: (error as Error).message }, { status: 500 });
   }
 }
@@ -0,0 +1,8 @@
+import { NextResponse } from "next/server";
+import { usageLimits } from "../../../../lib/usage/meter";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  return NextResponse.json(usageLimits());
+}
@@ -1,11 +1,17 @@
 "use client";
 
+import { useCallback, useState } from "react";
 import MarkdownAnimator from "../components/MarkdownAnimator";
+import ProjectDashboard from "../components/ProjectDashboard";
+import ProjectPresentation from "../components/ProjectPresentation";
 import { useAuth } from "../lib/hooks/useAuth";
 import SignInWithEmail from "../components/SignInWithGoogle";
 
 export default function Home() {
   const { user, loading } = useAuth();
+  const [openProjectId, setOpenProjectId] = useState<string | null>(null);
+  const [presentingProjectId, setPresentingProjectId] = useState<string | null>(null);
+  const closePresentation = useCallback(() => setPresentingProjectId(null), []);
 
   if (loading) {
     return (
@@ -34,10 +40,28 @@ export default function Home() {
   return (
     <main className="min-h-screen p-6">
       <div className="max-w-5xl mx-auto pb-6">
-        <h1 className="text-4xl font-bold">Markdown Animation Editor</h1>
+        <div className="flex items-baseline justify-between gap-4">
+          <h1 className="text-4xl font-bold">Markdown Animation Editor</h1>
+          <a href="/usage" className="text-sm text-blue-600 hover:text-blue-700">Usage</a>
+        </div>
         <p className="text-gray-600 pt-2">Paste a markdown report. Each heading gets a 16:9 editable animation canvas. Click a canvas to paste custom code.</p>
+        {openProjectId && (
+          <button
+            onClick={() => setOpenProjectId(null)}
+            className="mt-4 text-sm text-blue-600 hover:text-blue-700"
+          >
+            ← All projects
+          </button>
+        )}
       </div>
-      <MarkdownAnimator />
+      {openProjectId ? (
+        <MarkdownAnimator key={openProjectId} projectId={openProjectId} />
+      ) : (
+        <ProjectDashboard onOpen={setOpenProjectId} onPresent={setPresentingProjectId} />
+      )}
+      {presentingProjectId && (
+        <ProjectPresentation key={presentingProjectId} projectId={presentingProjectId} onClose={closePresentation} />
+      )}
     </main>
   );
 }
@@ -0,0 +1,29 @@
+"use client";
+
+import UsageOverview from "../../components/UsageOverview";
+import { useAuth } from "../../lib/hooks/useAuth";
+
+export default function UsagePage() {
+  const { user, loading } = useAuth();
+
+  if (loading) {
+    return (
+      <main className="min-h-screen grid place-items-center">
+        <div className="animate-pulse text-gray-500">Loading…</div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen p-6">
+      <div className="max-w-5xl mx-auto pb-6">
+        <a href="/" className="text-sm text-blue-600 hover:text-blue-700">← Projects</a>
+      </div>
+      {user ? (
+        <UsageOverview />
+      ) : (
+        <p className="max-w-5xl mx-auto text-gray-600">Sign in to see your usage.</p>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,164 @@
+"use client";
+
+import { useState } from "react";
+import type { BatchStatus } from "../lib/batch/queue";
+import type { BatchProgress } from "../lib/hooks/useBatchRun";
+
+export type BatchKinds = { diagrams: boolean; animations: boolean };
+
+export type BatchRequest = {
+  sectionIds: string[];
+  kinds: BatchKinds;
+  concurrency: number;
+  replaceExisting: boolean;
+};
+
+export const batchStatusLabels: Record<BatchStatus, string> = {
+  queued: "Queued",
+  running: "Running",
+  done: "Done",
+  failed: "Failed",
+};
+
+export const batchStatusStyles: Record<BatchStatus, string> = {
+  queued: "bg-gray-100 text-gray-600",
+  running: "bg-blue-100 text-blue-700",
+  done: "bg-green-100 text-green-700",
+  failed: "bg-red-100 text-red-700",
+};
+
+const MAX_CONCURRENCY = 6;
+
+export default function BatchGenerate({ sections, statuses, errors, running, progress, onStart, onCancel }: {
+  sections: { id: string; label: string }[];
+  statuses: Record<string, BatchStatus>;
+  errors: Record<string, string>;
+  running: boolean;
+  progress: BatchProgress;
+  onStart: (request: BatchRequest) => void;
+  onCancel: () => void;
+}) {
+  const [kinds, setKinds] = useState<BatchKinds>({ diagrams: true, animations: false });
+  const [concurrency, setConcurrency] = useState(2);
+  const [replaceExisting, setReplaceExisting] = useState(false);
+  // Unticked sections; everything else is selected, including sections added by a re-parse
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+
+  const selectedIds = sections.map(s => s.id).filter(id => !excluded.has(id));
+  const finished = progress.done + progress.failed;
+
+  const toggleSection = (sectionId: string) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (next.has(sectionId)) next.delete(sectionId);
+      else next.add(sectionId);
+      return next;
+    });
+  };
+
+  return (
+    <details className="rounded border border-gray-200 p-4 text-sm">
+      <summary className="cursor-pointer select-none font-semibold text-gray-800">
+        Generate all
+        {progress.total > 0 && (
+          <span className="ml-2 font-normal text-gray-500">
+            {finished} of {progress.total} finished{progress.failed > 0 ? `, ${progress.failed} failed` : ""}
+          </span>
+        )}
+      </summary>
+
+      <div className="mt-3 space-y-3">
+        <div className="flex flex-wrap items-center gap-4">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={kinds.diagrams}
+              onChange={(e) => setKinds({ ...kinds, diagrams: e.target.checked })}
+            />
+            Diagrams
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={kinds.animations}
+              onChange={(e) => setKinds({ ...kinds, animations: e.target.checked })}
+            />
+            Animations
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={replaceExisting} onChange={(e) => setReplaceExisting(e.target.checked)} />
+            Replace existing
+          </label>
+          <label className="flex items-center gap-2">
+            Parallel requests
+            <input
+              type="number"
+              min={1}
+              max={MAX_CONCURRENCY}
+              value={concurrency}
+              onChange={(e) => setConcurrency(Math.min(MAX_CONCURRENCY, Math.max(1, Number(e.target.value) || 1)))}
+              className="w-16 px-2 py-1 rounded border border-gray-300"
+            />
+          </label>
+          <div className="ml-auto flex gap-2">
+            {running ? (
+              <button onClick={onCancel} className="px-4 py-2 rounded border text-red-600 hover:bg-red-50">
+                Cancel
+              </button>
+            ) : (
+              <button
+                onClick={() => onStart({ sectionIds: selectedIds, kinds, concurrency, replaceExisting })}
+                disabled={selectedIds.length === 0 || (!kinds.diagrams && !kinds.animations)}
+                className="px-4 py-2 rounded bg-blue-600 text-white font-semibold hover:bg-blue-700 disabled:opacity-50"
+              >
+                Generate {selectedIds.length} section{selectedIds.length === 1 ? "" : "s"}
+              </button>
+            )}
+          </div>
+        </div>
+
+        {progress.total > 0 && (
+          <div className="h-2 w-full rounded bg-gray-100 overflow-hidden">
+            <div
+              className={`h-full transition-all ${progress.failed > 0 ? "bg-amber-500" : "bg-blue-600"}`}
+              style={{ width: `${(finished / progress.total) * 100}%` }}
+            />
+          </div>
+        )}
+
+        <div className="flex gap-3 text-xs text-gray-500">
+          <button onClick={() => setExcluded(new Set())} className="hover:text-gray-800">Select all</button>
+          <button onClick={() => setExcluded(new Set(sections.map(s => s.id)))} className="hover:text-gray-800">
+            Select none
+          </button>
+        </div>
+        <ul className="max-h-64 overflow-y-auto divide-y rounded border border-gray-100">
+          {sections.map(section => {
+            const status = statuses[section.id];
+            return (
+              <li key={section.id} className="flex items-center gap-3 px-3 py-1.5">
+                <input
+                  type="checkbox"
+                  checked={!excluded.has(section.id)}
+                  onChange={() => toggleSection(section.id)}
+                  disabled={running}
+                />
+                <span className="flex-1 min-w-0 truncate">{section.label}</span>
+                {status === "failed" && errors[section.id] && (
+                  <span className="max-w-[40%] truncate text-xs text-red-600" title={errors[section.id]}>
+                    {errors[section.id]}
+                  </span>
+                )}
+                {status && (
+                  <span className={`shrink-0 rounded px-2 py-0.5 text-xs ${batchStatusStyles[status]}`}>
+                    {batchStatusLabels[status]}
+                  </span>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </details>
+  );
+}
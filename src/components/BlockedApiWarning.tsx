@@ -0,0 +1,13 @@
+import { findBlockedApis } from "../lib/canvas/policy";
+
+// Shown above the save button when canvas code asks for network or storage APIs
+export default function BlockedApiWarning({ code, className = "" }: { code: string; className?: string }) {
+  const apis = findBlockedApis(code);
+  if (apis.length === 0) return null;
+  return (
+    <div className={`rounded border border-amber-300 bg-amber-50 px-3 py-2 text-sm text-amber-800 ${className}`}>
+      This code uses {apis.join(", ")}. Canvases run isolated from the app with no network or storage access, so
+      these calls will fail when it runs.
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import DiffView from "./DiffView";
+import BlockedApiWarning from "./BlockedApiWarning";
+import { streamChat } from "../lib/ai/streamChat";
+import {
+  buildEditMessage,
+  CANVAS_EDIT_SYSTEM_PROMPT,
+  canvasKindLabels,
+  extractSourceFromReply,
+  toChatMessages,
+  type ChatTurn,
+} from "../lib/canvas/chat";
+import { parseChartSpec, stringifyChartSpec } from "../lib/chart/spec";
+import { requestMermaidRepair } from "../lib/mermaid/generate";
+import { ensureValidMermaid } from "../lib/mermaid/repair";
+import type { MermaidError } from "../lib/mermaid/validate";
+import type { LlmOptions } from "../lib/llm/options";
+import type { RevisionKind } from "../lib/supabase/revisions";
+import { isAbortError } from "../lib/batch/queue";
+import { errorMessage } from "../lib/errors";
+
+const turnStatusLabels: Record<ChatTurn["status"], string> = {
+  pending: "Waiting for review",
+  accepted: "Accepted",
+  rejected: "Rejected",
+};
+
+export default function CanvasChat({
+  kind,
+  heading,
+  sectionText,
+  currentSource,
+  turns,
+  llmOptions,
+  onTurnsChange,
+  onAccept,
+  onClose,
+}: {
+  kind: RevisionKind;
+  heading: string;
+  sectionText: string;
+  currentSource: string;
+  turns: ChatTurn[];
+  llmOptions: LlmOptions;
+  onTurnsChange: (turns: ChatTurn[]) => void;
+  onAccept: (source: string) => void;
+  onClose: () => void;
+}) {
+  const [instruction, setInstruction] = useState("");
+  const [streamingText, setStreamingText] = useState<string | null>(null);
+  const [proposal, setProposal] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop a running request when the chat closes
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const label = canvasKindLabels[kind];
+  const isStreaming = streamingText !== null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!instruction.trim() || isStreaming) return;
+
+    const request = buildEditMessage({
+      kind,
+      heading,
+      sectionText,
+      currentSource,
+      instruction: instruction.trim(),
+      firstTurn: turns.length === 0,
+    });
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError("");
+    setProposal(null);
+    setStreamingText("");
+
+    try {
+      const reply = await streamChat(
+        { messages: [...toChatMessages(turns), request], system: CANVAS_EDIT_SYSTEM_PROMPT, options: llmOptions },
+        (_delta, text) => setStreamingText(text),
+        controller.signal
+      );
+
+      let source = extractSourceFromReply(reply);
+      if (kind === "mermaid") {
+        const repair = (mermaid: string, error: MermaidError) => requestMermaidRepair(mermaid, error, llmOptions);
+        source = (await ensureValidMermaid(source, repair)).source;
+      } else if (kind === "chart") {
+        const check = parseChartSpec(source);
+        if (!check.ok) throw new Error(`The reply isn't a valid chart: ${check.error}`);
+        source = stringifyChartSpec(check.spec);
+      }
+
+      onTurnsChange([...turns, { instruction: instruction.trim(), request, reply, status: "pending" }]);
+      setProposal(source);
+      setInstruction("");
+    } catch (err) {
+      if (!isAbortError(err)) {
+        console.error("Error processing chat request:", err);
+        setError(errorMessage(err, "Failed to process your request. Please try again."));
+      }
+    } finally {
+      setStreamingText(null);
+      abortRef.current = null;
+    }
+  };
+
+  const resolveLastTurn = (status: ChatTurn["status"]) => {
+    onTurnsChange(turns.map((turn, idx) => idx === turns.length - 1 ? { ...turn, status } : turn));
+    setProposal(null);
+  };
+
+  const handleAccept = () => {
+    if (proposal === null) return;
+    onAccept(proposal);
+    resolveLastTurn("accepted");
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 grid place-items-center bg-black/50 p-4">
+      <div className="w-full max-w-5xl max-h-full bg-white rounded-lg shadow-xl overflow-hidden flex flex-col">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <h3 className="font-semibold">Edit {label} · {heading}</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">✕</button>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto p-4 space-y-4">
+          {turns.length > 0 && (
+            <ul className="space-y-2">
+              {turns.map((turn, idx) => (
+                <li key={idx} className="flex items-start justify-between gap-4 text-sm">
+                  <span className="text-gray-800">{turn.instruction}</span>
+                  <span className="shrink-0 text-xs text-gray-500">{turnStatusLabels[turn.status]}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {isStreaming && (
+            <pre className="max-h-64 overflow-y-auto rounded bg-gray-50 border p-3 text-xs whitespace-pre-wrap">
+              {streamingText || "Thinking…"}
+            </pre>
+          )}
+
+          {proposal !== null && (
+            <div className="space-y-2">
+              <DiffView before={currentSource} after={proposal} afterLabel="Proposed" />
+              {kind === "code" && <BlockedApiWarning code={proposal} />}
+              <div className="flex justify-end gap-2">
+                <button onClick={() => resolveLastTurn("rejected")} className="px-4 py-2 rounded border">
+                  Reject
+                </button>
+                <button
+                  onClick={handleAccept}
+                  className="px-4 py-2 rounded bg-blue-600 text-white font-semibold hover:bg-blue-700"
+                >
+                  Accept
+                </button>
+              </div>
+            </div>
+          )}
+
+          {error && <div className="text-red-600 text-sm">{error}</div>}
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-4 border-t">
+          <textarea
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            placeholder={turns.length > 0 ? "Refine further..." : `Describe how you want to modify the ${label}...`}
+            className="w-full h-24 p-3 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
+          />
+          <div className="flex justify-end gap-2 mt-2">
+            {isStreaming ? (
+              <button
+                type="button"
+                onClick={() => abortRef.current?.abort()}
+                className="px-4 py-2 text-gray-600 hover:text-gray-800"
+              >
+                Stop
+              </button>
+            ) : (
+              <button type="button" onClick={onClose} className="px-4 py-2 text-gray-600 hover:text-gray-800">
+                Close
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={isStreaming || proposal !== null}
+              className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+            >
+              Send
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  contentCategoryLabels,
+  DEFAULT_CLASSIFIER_RULES,
+  type ClassifierRules,
+} from "../lib/classifier/rules";
+
+type Category = keyof ClassifierRules;
+
+const categories = Object.keys(DEFAULT_CLASSIFIER_RULES) as Category[];
+
+const toText = (keywords: string[]) => keywords.join(", ");
+const toKeywords = (text: string) => text.split(",").map(k => k.trim()).filter(Boolean);
+
+// Keyword lists the classifier uses to decide what kind of section it is looking at.
+// Only categories that differ from the defaults are stored for the workspace.
+export default function ClassifierSettings({ value, onSave }: {
+  value: ClassifierRules;
+  onSave: (overrides: Partial<ClassifierRules>) => Promise<void>;
+}) {
+  const [draft, setDraft] = useState<Record<Category, string>>(() => mapRules(value));
+  const [status, setStatus] = useState<"idle" | "saving" | "saved" | "error">("idle");
+
+  useEffect(() => {
+    setDraft(mapRules(value));
+  }, [value]);
+
+  const handleSave = async () => {
+    const overrides: Partial<ClassifierRules> = {};
+    for (const category of categories) {
+      const keywords = toKeywords(draft[category]);
+      if (toText(keywords) !== toText(DEFAULT_CLASSIFIER_RULES[category])) overrides[category] = keywords;
+    }
+    setStatus("saving");
+    try {
+      await onSave(overrides);
+      setStatus("saved");
+    } catch (error) {
+      console.error("Error saving classifier rules:", error);
+      setStatus("error");
+    }
+  };
+
+  return (
+    <details className="text-sm text-gray-600">
+      <summary className="cursor-pointer select-none">Section categories</summary>
+      <div className="space-y-2 pt-2">
+        <p className="text-xs text-gray-500">
+          Comma-separated keywords per category. Each matches whole words and their plurals, and counts double in headings.
+          These rules apply to every project in your workspace.
+        </p>
+        {categories.map(category => (
+          <label key={category} className="grid grid-cols-[8rem_1fr] items-start gap-2">
+            <span className="pt-1">{contentCategoryLabels[category]}</span>
+            <textarea
+              value={draft[category]}
+              onChange={(e) => {
+                setDraft({ ...draft, [category]: e.target.value });
+                setStatus("idle");
+              }}
+              rows={2}
+              className="w-full px-2 py-1 rounded border border-gray-300 font-mono text-xs"
+            />
+          </label>
+        ))}
+        <div className="flex items-center justify-end gap-3">
+          {status === "saved" && <span className="text-xs text-gray-500">Saved</span>}
+          {status === "error" && <span className="text-xs text-red-600">Couldn&apos;t save the rules</span>}
+          <button
+            onClick={() => {
+              setDraft(mapRules(DEFAULT_CLASSIFIER_RULES));
+              setStatus("idle");
+            }}
+            className="px-3 py-1 rounded border hover:bg-gray-50"
+          >
+            Reset to defaults
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={status === "saving"}
+            className="px-3 py-1 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </details>
+  );
+}
+
+function mapRules(rules: ClassifierRules): Record<Category, string> {
+  return Object.fromEntries(categories.map(category => [category, toText(rules[category])])) as Record<Category, string>;
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import { useMemo } from "react";
+import { diffLines } from "diff";
+
+type DiffRow = {
+  left?: string;
+  right?: string;
+  change: "same" | "removed" | "added" | "changed";
+};
+
+const splitLines = (value: string) => value.replace(/\n$/, "").split("\n");
+
+// Lines up a line diff into side-by-side rows. A removal directly followed by an
+// addition is shown as changed lines next to each other.
+function buildRows(before: string, after: string): DiffRow[] {
+  const rows: DiffRow[] = [];
+  const changes = diffLines(before, after);
+
+  for (let i = 0; i < changes.length; i++) {
+    const change = changes[i];
+    if (change.removed && changes[i + 1]?.added) {
+      const removed = splitLines(change.value);
+      const added = splitLines(changes[i + 1].value);
+      for (let j = 0; j < Math.max(removed.length, added.length); j++) {
+        rows.push({
+          left: removed[j],
+          right: added[j],
+          change: removed[j] === undefined ? "added" : added[j] === undefined ? "removed" : "changed",
+        });
+      }
+      i++;
+    } else if (change.removed) {
+      rows.push(...splitLines(change.value).map(line => ({ left: line, change: "removed" as const })));
+    } else if (change.added) {
+      rows.push(...splitLines(change.value).map(line => ({ right: line, change: "added" as const })));
+    } else {
+      rows.push(...splitLines(change.value).map(line => ({ left: line, right: line, change: "same" as const })));
+    }
+  }
+
+  return rows;
+}
+
+const leftStyles: Record<DiffRow["change"], string> = {
+  same: "",
+  removed: "bg-red-50 text-red-800",
+  added: "bg-gray-50",
+  changed: "bg-red-50 text-red-800",
+};
+
+const rightStyles: Record<DiffRow["change"], string> = {
+  same: "",
+  removed: "bg-gray-50",
+  added: "bg-green-50 text-green-800",
+  changed: "bg-green-50 text-green-800",
+};
+
+export default function DiffView({ before, after, beforeLabel = "Current", afterLabel = "Revision" }: {
+  before: string;
+  after: string;
+  beforeLabel?: string;
+  afterLabel?: string;
+}) {
+  const rows = useMemo(() => buildRows(before, after), [before, after]);
+
+  return (
+    <div className="rounded border border-gray-200 overflow-auto font-mono text-xs">
+      <div className="grid grid-cols-2 sticky top-0 bg-gray-100 border-b text-gray-600 font-sans font-semibold">
+        <div className="px-2 py-1">{beforeLabel}</div>
+        <div className="px-2 py-1 border-l">{afterLabel}</div>
+      </div>
+      {rows.map((row, idx) => (
+        <div key={idx} className="grid grid-cols-2">
+          <pre className={`px-2 whitespace-pre-wrap break-all ${leftStyles[row.change]}`}>{row.left ?? " "}</pre>
+          <pre className={`px-2 border-l whitespace-pre-wrap break-all ${rightStyles[row.change]}`}>{row.right ?? " "}</pre>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { LlmOptions, LlmProvider, ProviderInfo } from "../lib/llm/options";
+
+export default function LlmSettings({ value, onChange }: {
+  value: LlmOptions;
+  onChange: (value: LlmOptions) => void;
+}) {
+  const [providers, setProviders] = useState<ProviderInfo[]>([]);
+  const [defaultProvider, setDefaultProvider] = useState<LlmProvider | null>(null);
+
+  useEffect(() => {
+    fetch("/api/llm/providers", { cache: "no-store" })
+      .then(response => response.json())
+      .then(result => {
+        setProviders(result.providers);
+        setDefaultProvider(result.defaultProvider);
+      })
+      .catch(error => console.error("Error loading LLM providers:", error));
+  }, []);
+
+  const activeProvider = providers.find(p => p.id === (value.provider ?? defaultProvider));
+
+  // Empty inputs fall back to the server defaults
+  const update = (changes: Partial<LlmOptions>) => {
+    const next: LlmOptions = { ...value, ...changes };
+    (Object.keys(next) as (keyof LlmOptions)[]).forEach(key => {
+      if (next[key] === undefined || next[key] === "") delete next[key];
+    });
+    onChange(next);
+  };
+
+  const parseNumber = (text: string) => (text.trim() === "" ? undefined : Number(text));
+
+  return (
+    <details className="text-sm text-gray-600">
+      <summary className="cursor-pointer select-none">
+        Model: {activeProvider ? `${activeProvider.label} · ${value.model ?? activeProvider.defaultModel}` : "none configured (offline templates)"}
+      </summary>
+      <div className="flex flex-wrap items-end gap-3 pt-2">
+        <label className="flex flex-col gap-1">
+          Provider
+          <select
+            value={value.provider ?? ""}
+            onChange={(e) => update({ provider: (e.target.value || undefined) as LlmProvider | undefined, model: undefined })}
+            className="px-2 py-1 rounded border border-gray-300"
+          >
+            <option value="">Server default</option>
+            {providers.map(p => (
+              <option key={p.id} value={p.id} disabled={!p.configured}>
+                {p.label}{p.configured ? "" : " (not configured)"}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          Model
+          <input
+            value={value.model ?? ""}
+            onChange={(e) => update({ model: e.target.value || undefined })}
+            placeholder={activeProvider?.defaultModel ?? ""}
+            className="w-56 px-2 py-1 rounded border border-gray-300"
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          Temperature
+          <input
+            type="number"
+            min={0}
+            max={2}
+            step={0.1}
+            value={value.temperature ?? ""}
+            onChange={(e) => update({ temperature: parseNumber(e.target.value) })}
+            placeholder="default"
+            className="w-24 px-2 py-1 rounded border border-gray-300"
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          Max tokens
+          <input
+            type="number"
+            min={1}
+            step={256}
+            value={value.maxTokens ?? ""}
+            onChange={(e) => update({ maxTokens: parseNumber(e.target.value) })}
+            placeholder="default"
+            className="w-28 px-2 py-1 rounded border border-gray-300"
+          />
+        </label>
+      </div>
+    </details>
+  );
+}
@@ -1,63 +1,195 @@
 "use client";
 
-import { useCallback, useMemo, useState } from "react";
-
-type Section = {
-  id: string;
-  heading: string;
-  body: string;
-  code?: string; // custom HTML/JS pasted by user
-  mermaidCode?: string; // AI-generated Mermaid diagram
-};
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { strToU8, zipSync } from "fflate";
+import SectionOutline from "./SectionOutline";
+import {
+  buildOutline,
+  flattenOutline,
+  MAX_HEADING_LEVEL,
+  splitMarkdownIntoSections,
+  type Section,
+} from "../lib/markdown/sections";
+import { mergeSections, pickCanvas } from "../lib/markdown/merge";
+import { loadProject } from "../lib/supabase/projects";
+import { errorMessage } from "../lib/errors";
+import { buildCanvasSrcDoc, defaultBlankSnippet, renderCanvasSrcDoc, shownCanvasKind } from "../lib/canvas/srcDoc";
+import {
+  listRevisions,
+  moveRevisions,
+  recordRevision,
+  revisionFields,
+  type Revision,
+  type RevisionKind,
+  type RevisionSource,
+} from "../lib/supabase/revisions";
+import RevisionHistoryDrawer from "./RevisionHistoryDrawer";
+import CanvasChat from "./CanvasChat";
+import BlockedApiWarning from "./BlockedApiWarning";
+import type { ChatTurn } from "../lib/canvas/chat";
+import LlmSettings from "./LlmSettings";
+import { useLlmSettings } from "../lib/hooks/useLlmSettings";
+import { buildHeuristicMermaid } from "../lib/mermaid/heuristic";
+import { classifySection, type Classification } from "../lib/classifier/classify";
+import { contentCategoryLabels, type ClassifierRules } from "../lib/classifier/rules";
+import { useClassifierRules } from "../lib/hooks/useClassifierRules";
+import ClassifierSettings from "./ClassifierSettings";
+import PresenterMode from "./PresenterMode";
+import VideoExport, { type VideoTarget } from "./VideoExport";
+import { buildReportPresentation } from "../lib/export/report";
+import { downloadFile, fileSlug, sectionFileName } from "../lib/export/download";
+import { svgToPng } from "../lib/export/image";
+import { buildMarkdownExport } from "../lib/export/markdown";
+import { renderMermaid } from "../lib/mermaid/render";
+import {
+  diagramRetryAfterMs,
+  isRetryableDiagramError,
+  requestMermaidDiagram,
+  requestMermaidRepair,
+} from "../lib/mermaid/generate";
+import { ensureValidMermaid } from "../lib/mermaid/repair";
+import type { MermaidError } from "../lib/mermaid/validate";
+import { useMermaidRender } from "../lib/hooks/useMermaidRender";
+import { useCanvasControls, type CanvasLog, type CanvasPlayback } from "../lib/hooks/useCanvasControls";
+import { withCanvasRuntime } from "../lib/canvas/runtime";
+import { useProjectAutosave, type AutosaveStatus } from "../lib/hooks/useProjectAutosave";
+import { useBatchRun } from "../lib/hooks/useBatchRun";
+import { useDictation } from "../lib/hooks/useDictation";
+import VoiceNotesDrawer from "./VoiceNotesDrawer";
+import type { Note } from "../lib/supabase/notes";
+import { appendNoteSection } from "../lib/markdown/notes";
+import { dictationPhrases } from "../lib/dictation/commands";
+import { DEFAULT_RETRY, withRetry } from "../lib/batch/queue";
+import BatchGenerate, { batchStatusLabels, batchStatusStyles, type BatchRequest } from "./BatchGenerate";
+import { getTemplates, renderAnimation, resolveTemplate } from "../lib/animation";
+import { extractChartSpec } from "../lib/chart/extract";
+import { CHART_TYPES, parseChartSpec, stringifyChartSpec, type ChartType } from "../lib/chart/spec";
 
-// Very small markdown splitter: finds lines starting with # as section headings
-function splitMarkdownIntoSections(markdown: string): Section[] {
-  const lines = markdown.split(/\r?\n/);
-  const sections: Section[] = [];
-  let current: Section | null = null;
+const chartTypeLabels: Record<ChartType, string> = {
+  bar: "Bar",
+  line: "Line",
+  pie: "Pie",
+};
 
-  const pushCurrent = () => {
-    if (current) {
-      sections.push({ ...current, body: current.body.trim() });
-    }
-  };
-
-  for (const line of lines) {
-    const headingMatch = /^(#{1,6})\s+(.+)$/.exec(line);
-    if (headingMatch) {
-      pushCurrent();
-      current = {
-        id: `${sections.length}-${Date.now()}`,
-        heading: headingMatch[2].trim(),
-        body: "",
-      };
-    } else if (current) {
-      current.body += line + "\n";
-    } else {
-      // content before first heading goes into an implicit section
-      current = {
-        id: `${sections.length}-${Date.now()}`,
-        heading: "Introduction",
-        body: line + "\n",
-      };
-    }
-  }
+const headingSizes: Record<number, string> = {
+  1: "text-3xl",
+  2: "text-2xl",
+  3: "text-xl",
+};
 
-  pushCurrent();
-  return sections;
-}
+const autosaveLabels: Record<AutosaveStatus, string> = {
+  idle: "",
+  saving: "Saving…",
+  saved: "All changes saved",
+  error: "Couldn't save changes",
+};
 
-export default function MarkdownAnimator() {
+export default function MarkdownAnimator({ projectId }: { projectId: string }) {
   const [rawMarkdown, setRawMarkdown] = useState<string>("");
   const [sections, setSections] = useState<Section[]>([]);
+  const [orphans, setOrphans] = useState<Section[]>([]); // canvases left without a section by a re-parse
   const [editingSectionId, setEditingSectionId] = useState<string | null>(null);
   const [tempCode, setTempCode] = useState<string>("");
-  const [generatingMermaid, setGeneratingMermaid] = useState<string | null>(null);
+  const [generatingIds, setGeneratingIds] = useState<Set<string>>(new Set());
+  const batch = useBatchRun();
+  const [historySectionId, setHistorySectionId] = useState<string | null>(null);
+  const [chatTarget, setChatTarget] = useState<{ sectionId: string; kind: RevisionKind } | null>(null);
+  // Edit conversations, one per section and canvas kind, so refinements build on earlier turns
+  const [chatTurns, setChatTurns] = useState<Record<string, ChatTurn[]>>({});
+  const [canvasDepth, setCanvasDepth] = useState<number>(MAX_HEADING_LEVEL);
+  const [loaded, setLoaded] = useState(false);
+  const [projectTitle, setProjectTitle] = useState("");
+  const [exporting, setExporting] = useState(false);
+  const [presenting, setPresenting] = useState(false);
+  const [notesOpen, setNotesOpen] = useState(false);
+  const [videoExportIds, setVideoExportIds] = useState<string[] | null>(null);
+  const [llmOptions, setLlmOptions] = useLlmSettings();
+  const [classifierRules, saveClassifierRules] = useClassifierRules();
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const dictation = useDictation(rawMarkdown, setRawMarkdown);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadProject(projectId)
+      .then(({ project, sections }) => {
+        if (cancelled) return;
+        setProjectTitle(project.title);
+        setRawMarkdown(project.rawMarkdown);
+        setCanvasDepth(project.canvasDepth);
+        setOrphans(project.orphans);
+        setSections(sections);
+        setLoaded(true);
+      })
+      .catch(error => {
+        console.error("Error loading project:", error);
+        if (!cancelled) setLoadError(errorMessage(error, "Failed to load project"));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  const snapshot = useMemo(
+    () => (loaded ? { rawMarkdown, canvasDepth, orphans, sections } : null),
+    [loaded, rawMarkdown, canvasDepth, orphans, sections]
+  );
+  const autosaveStatus = useProjectAutosave(projectId, snapshot);
+
+  const outline = useMemo(() => buildOutline(sections), [sections]);
+  const numberedSections = useMemo(() => flattenOutline(outline), [outline]);
+
+  const parseMarkdown = useCallback((markdown: string) => {
+    const parsed = splitMarkdownIntoSections(markdown, canvasDepth);
+    // Earlier orphans get another chance to match the new outline
+    const merged = mergeSections([...sections, ...orphans], parsed);
+    setSections(merged.sections);
+    setOrphans(merged.orphans);
+    for (const { from, to } of merged.moved) {
+      moveRevisions(projectId, from, to).catch(error => console.error("Error moving revisions:", error));
+    }
+  }, [projectId, canvasDepth, sections, orphans]);
 
-  const handleParse = useCallback(() => {
-    const parsed = splitMarkdownIntoSections(rawMarkdown);
-    setSections(parsed);
-  }, [rawMarkdown]);
+  const handleParse = useCallback(() => parseMarkdown(rawMarkdown), [parseMarkdown, rawMarkdown]);
+
+  // The note goes into the markdown too, so it stays a section when the report is re-parsed
+  const handleSendNoteToReport = useCallback((note: Note) => {
+    const markdown = appendNoteSection(rawMarkdown, note.text, canvasDepth);
+    setRawMarkdown(markdown);
+    parseMarkdown(markdown);
+  }, [parseMarkdown, rawMarkdown, canvasDepth]);
+
+  const handleReattachOrphan = useCallback((orphanId: string, targetId: string) => {
+    const orphan = orphans.find(o => o.id === orphanId);
+    if (!orphan) return;
+    setSections(prev => prev.map(s => s.id === targetId ? { ...s, ...pickCanvas(orphan) } : s));
+    setOrphans(prev => prev.filter(o => o.id !== orphanId));
+    moveRevisions(projectId, orphanId, targetId).catch(error => console.error("Error moving revisions:", error));
+  }, [projectId, orphans]);
+
+  const handleDiscardOrphan = useCallback((orphanId: string) => {
+    setOrphans(prev => prev.filter(o => o.id !== orphanId));
+  }, []);
+
+  const handleJumpToSection = useCallback((sectionId: string) => {
+    document.getElementById(`section-${sectionId}`)?.scrollIntoView({ behavior: "smooth", block: "start" });
+  }, []);
+
+  // Every change to a canvas goes through here so it lands in the section's history
+  const applyCanvasChange = useCallback((sectionId: string, kind: RevisionKind, content: string, source: RevisionSource) => {
+    setSections(prev => prev.map(s => s.id === sectionId ? { ...s, [revisionFields[kind]]: content, canvasKind: kind } : s));
+    recordRevision(projectId, sectionId, kind, content, source)
+      .catch(error => console.error("Error recording revision:", error));
+  }, [projectId]);
+
+  const handleRestoreRevision = useCallback((revision: Revision) => {
+    applyCanvasChange(revision.sectionId, revision.kind, revision.content, "restore");
+    setHistorySectionId(null);
+  }, [applyCanvasChange]);
+
+  const loadHistory = useCallback(
+    () => (historySectionId ? listRevisions(projectId, historySectionId) : Promise.resolve([])),
+    [projectId, historySectionId]
+  );
 
   const handleOpenEditor = useCallback((sectionId: string) => {
     const sec = sections.find(s => s.id === sectionId);
@@ -67,284 +199,413 @@ export default function MarkdownAnimator() {
 
   const handleSaveCode = useCallback(() => {
     if (!editingSectionId) return;
-    setSections(prev => prev.map(s => s.id === editingSectionId ? { ...s, code: tempCode } : s));
+    applyCanvasChange(editingSectionId, "code", tempCode, "manual");
     setEditingSectionId(null);
-  }, [editingSectionId, tempCode]);
+  }, [editingSectionId, tempCode, applyCanvasChange]);
+
+  const repairWithLlm = useCallback(
+    (source: string, error: MermaidError) => requestMermaidRepair(source, error, llmOptions),
+    [llmOptions]
+  );
+
+  const setGenerating = useCallback((sectionId: string, busy: boolean) => {
+    setGeneratingIds(prev => {
+      const next = new Set(prev);
+      if (busy) next.add(sectionId);
+      else next.delete(sectionId);
+      return next;
+    });
+  }, []);
+
+  // LLM diagram with retries on provider errors and rate limits (waiting as long as the
+  // server asks), falling back to the heuristic when no provider is configured
+  const buildDiagram = useCallback(async (section: Section, signal?: AbortSignal) => {
+    const retry = { ...DEFAULT_RETRY, shouldRetry: isRetryableDiagramError, retryAfterMs: diagramRetryAfterMs };
+    const generated = await withRetry(() => requestMermaidDiagram(section, llmOptions, signal), retry, signal);
+    if (generated) {
+      const repair = (source: string, error: MermaidError) =>
+        withRetry(() => requestMermaidRepair(source, error, llmOptions, signal), retry, signal);
+      const { source } = await ensureValidMermaid(generated, repair);
+      return { source, origin: "ai" as const };
+    }
+    const { source } = await ensureValidMermaid(buildHeuristicMermaid(section, classifierRules));
+    return { source, origin: "template" as const };
+  }, [llmOptions, classifierRules]);
 
   const generateMermaidDiagram = useCallback(async (sectionId: string) => {
     const section = sections.find(s => s.id === sectionId);
     if (!section) return;
 
-    setGeneratingMermaid(sectionId);
+    setGenerating(sectionId, true);
     
     try {
-      // First, create a meaningful summary of the content
-      const content = section.body.toLowerCase();
-      let summary = '';
-      
-      // Extract key concepts and create meaningful summaries
-      if (content.includes('workflow') || content.includes('process') || content.includes('step')) {
-        // Process/Workflow - extract key steps
-        const sentences = section.body.split(/[.!?]+/).filter(s => s.trim().length > 20);
-        const steps = sentences.slice(0, 4).map(s => {
-          const clean = s.trim();
-          if (clean.includes('first') || clean.includes('initially')) return 'Initial Setup';
-          if (clean.includes('then') || clean.includes('next')) return 'Main Process';
-          if (clean.includes('finally') || clean.includes('complete')) return 'Finalization';
-          if (clean.includes('evaluate') || clean.includes('assess')) return 'Evaluation';
-          return clean.substring(0, 20) + (clean.length > 20 ? '...' : '');
-        });
-        
-        summary = `flowchart TD
-    A[${section.heading}]`;
-        steps.forEach((step, index) => {
-          summary += `\n    A --> B${index + 1}[${step}]`;
-        });
-        summary += `\n    B${steps.length} --> C[Complete]`;
-        
-      } else if (content.includes('component') || content.includes('system') || content.includes('architecture')) {
-        // System/Architecture - extract main components
-        const sentences = section.body.split(/[.!?]+/).filter(s => s.trim().length > 15);
-        const components = sentences.slice(0, 4).map(s => {
-          const clean = s.trim();
-          if (clean.includes('hardware')) return 'Hardware';
-          if (clean.includes('software')) return 'Software';
-          if (clean.includes('interface')) return 'Interface';
-          if (clean.includes('data')) return 'Data Layer';
-          if (clean.includes('security')) return 'Security';
-          if (clean.includes('performance')) return 'Performance';
-          return clean.substring(0, 15) + (clean.length > 15 ? '...' : '');
-        });
-        
-        summary = `graph TB
-    A[${section.heading}]`;
-        components.forEach((comp, index) => {
-          summary += `\n    A --- B${index + 1}[${comp}]`;
-        });
-        
-      } else if (content.includes('compare') || content.includes('versus') || content.includes('difference')) {
-        // Comparison - extract comparison points
-        const sentences = section.body.split(/[.!?]+/).filter(s => s.trim().length > 15);
-        const points = sentences.slice(0, 3).map(s => {
-          const clean = s.trim();
-          if (clean.includes('advantage') || clean.includes('benefit')) return 'Advantages';
-          if (clean.includes('disadvantage') || clean.includes('limitation')) return 'Limitations';
-          if (clean.includes('difference') || clean.includes('contrast')) return 'Key Differences';
-          return clean.substring(0, 15) + (clean.length > 15 ? '...' : '');
-        });
-        
-        summary = `graph LR
-    A[${section.heading}]`;
-        points.forEach((point, index) => {
-          summary += `\n    A --> B${index + 1}[${point}]`;
-        });
-        
-      } else {
-        // Default - extract main concepts
-        const sentences = section.body.split(/[.!?]+/).filter(s => s.trim().length > 20);
-        const concepts = sentences.slice(0, 3).map(s => {
-          const clean = s.trim();
-          // Extract meaningful concepts
-          if (clean.includes('important') || clean.includes('key')) return 'Key Points';
-          if (clean.includes('benefit') || clean.includes('advantage')) return 'Benefits';
-          if (clean.includes('challenge') || clean.includes('difficulty')) return 'Challenges';
-          if (clean.includes('solution') || clean.includes('approach')) return 'Solutions';
-          if (clean.includes('requirement') || clean.includes('need')) return 'Requirements';
-          if (clean.includes('implementation') || clean.includes('deploy')) return 'Implementation';
-          return clean.substring(0, 20) + (clean.length > 20 ? '...' : '');
-        });
-        
-        summary = `flowchart TD
-    A[${section.heading}]`;
-        concepts.forEach((concept, index) => {
-          summary += `\n    A --> B${index + 1}[${concept}]`;
-        });
-      }
-      
-      // Add styling
-      summary += `\n    
-    style A fill:#e1f5fe,stroke:#0ea5e9,stroke-width:3px`;
-      
-      // Add node styling based on content type
-      if (content.includes('workflow') || content.includes('process')) {
-        summary += `\n    style C fill:#c8e6c9,stroke:#22c55e,stroke-width:3px`;
-        for (let i = 1; i <= 4; i++) {
-          summary += `\n    style B${i} fill:#fef3c7,stroke:#f59e0b,stroke-width:2px`;
-        }
-      } else if (content.includes('component') || content.includes('system')) {
-        for (let i = 1; i <= 4; i++) {
-          summary += `\n    style B${i} fill:#ddd6fe,stroke:#8b5cf6,stroke-width:2px`;
-        }
-      } else {
-        for (let i = 1; i <= 3; i++) {
-          summary += `\n    style B${i} fill:#fef3c7,stroke:#f59e0b,stroke-width:2px`;
-        }
-      }
-      
-      setSections(prev => prev.map(s => 
-        s.id === sectionId ? { ...s, mermaidCode: summary } : s
-      ));
+      const { source, origin } = await buildDiagram(section);
+      applyCanvasChange(sectionId, "mermaid", source, origin);
     } catch (error) {
       console.error('Error generating Mermaid diagram:', error);
       alert('Failed to generate diagram. Please try again.');
     } finally {
-      setGeneratingMermaid(null);
+      setGenerating(sectionId, false);
     }
-  }, [sections]);
+  }, [sections, applyCanvasChange, buildDiagram, setGenerating]);
+
+  // Runs the validate-and-repair loop on a diagram that already failed to render
+  const repairMermaidDiagram = useCallback(async (sectionId: string) => {
+    const section = sections.find(s => s.id === sectionId);
+    if (!section?.mermaidCode) return;
+
+    setGenerating(sectionId, true);
+
+    try {
+      const { source } = await ensureValidMermaid(section.mermaidCode, repairWithLlm);
+      if (source !== section.mermaidCode) {
+        applyCanvasChange(sectionId, "mermaid", source, "ai");
+      }
+    } catch (error) {
+      console.error('Error repairing Mermaid diagram:', error);
+      alert('Failed to repair diagram. Please try again.');
+    } finally {
+      setGenerating(sectionId, false);
+    }
+  }, [sections, applyCanvasChange, repairWithLlm, setGenerating]);
 
   const generateAnimation = useCallback(async (sectionId: string) => {
     const section = sections.find(s => s.id === sectionId);
     if (!section) return;
 
-    setGeneratingMermaid(sectionId);
+    setGenerating(sectionId, true);
     
     try {
-      // Generate customized animation based on section content
-      const content = section.body.toLowerCase();
-      const heading = section.heading;
-      
-      // Extract key points from the content
-      const sentences = section.body.split(/[.!?]+/).filter(s => s.trim().length > 20);
-      const keyPoints = sentences.slice(0, 3).map(s => {
-        const clean = s.trim();
-        if (clean.length > 50) {
-          return clean.substring(0, 50) + '...';
-        }
-        return clean;
-      });
-      
-      // Determine animation theme based on content
-      let theme = 'default';
-      let bgGradient = 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)';
-      let cardColor = 'rgba(255,255,255,0.1)';
-      
-      if (content.includes('workflow') || content.includes('process')) {
-        theme = 'workflow';
-        bgGradient = 'linear-gradient(135deg, #4facfe 0%, #00f2fe 100%)';
-        cardColor = 'rgba(79, 172, 254, 0.2)';
-      } else if (content.includes('system') || content.includes('architecture')) {
-        theme = 'system';
-        bgGradient = 'linear-gradient(135deg, #fa709a 0%, #fee140 100%)';
-        cardColor = 'rgba(250, 112, 154, 0.2)';
-      } else if (content.includes('optimization') || content.includes('performance')) {
-        theme = 'optimization';
-        bgGradient = 'linear-gradient(135deg, #a8edea 0%, #fed6e3 100%)';
-        cardColor = 'rgba(168, 237, 234, 0.2)';
-      } else if (content.includes('analysis') || content.includes('research')) {
-        theme = 'analysis';
-        bgGradient = 'linear-gradient(135deg, #ffecd2 0%, #fcb69f 100%)';
-        cardColor = 'rgba(255, 236, 210, 0.2)';
-      }
-      
-      const animationCode = `<!doctype html>
-<html>
-  <head>
-    <meta charset="utf-8" />
-    <meta name="viewport" content="width=device-width, initial-scale=1" />
-    <title>${heading}</title>
-    <style>
-      * { box-sizing: border-box; }
-      html, body { margin: 0; height: 100%; background: ${bgGradient}; font-family: system-ui, -apple-system, sans-serif; }
-      .container { display: flex; flex-direction: column; align-items: center; justify-content: center; height: 100vh; color: white; padding: 20px; }
-      .title { font-size: 2.5rem; font-weight: bold; margin-bottom: 2rem; text-align: center; text-shadow: 2px 2px 4px rgba(0,0,0,0.3); }
-      .card { background: ${cardColor}; backdrop-filter: blur(10px); border-radius: 20px; padding: 2rem; margin: 1rem; border: 1px solid rgba(255,255,255,0.3); box-shadow: 0 8px 32px rgba(0,0,0,0.1); }
-      .key-points { list-style: none; padding: 0; }
-      .key-points li { margin: 1rem 0; padding: 0.5rem; background: rgba(255,255,255,0.1); border-radius: 10px; border-left: 4px solid rgba(255,255,255,0.5); }
-      .floating { animation: float 4s ease-in-out infinite; }
-      .fade-in { animation: fadeIn 2s ease-out; }
-      .slide-up { animation: slideUp 1.5s ease-out; }
-      @keyframes float { 0%, 100% { transform: translateY(0px); } 50% { transform: translateY(-15px); } }
-      @keyframes fadeIn { from { opacity: 0; } to { opacity: 1; } }
-      @keyframes slideUp { from { opacity: 0; transform: translateY(30px); } to { opacity: 1; transform: translateY(0); } }
-    </style>
-  </head>
-  <body>
-    <div class="container">
-      <h1 class="title floating">${heading}</h1>
-      <div class="card fade-in">
-        <h3 style="margin-top: 0; color: rgba(255,255,255,0.9);">Key Insights</h3>
-        <ul class="key-points">
-          ${keyPoints.map(point => `<li class="slide-up">${point}</li>`).join('')}
-        </ul>
-      </div>
-    </div>
-    <script>
-      // Smooth interactive effects without popping
-      document.addEventListener('mousemove', (e) => {
-        const cards = document.querySelectorAll('.card');
-        cards.forEach(card => {
-          const rect = card.getBoundingClientRect();
-          const x = e.clientX - rect.left - rect.width / 2;
-          const y = e.clientY - rect.top - rect.height / 2;
-          const rotateX = (y / rect.height - 0.5) * 10;
-          const rotateY = (x / rect.width - 0.5) * -10;
-          card.style.transform = \`perspective(1000px) rotateX(\${rotateX}deg) rotateY(\${rotateY}deg) translateZ(10px)\`;
-        });
-      });
-      
-      // Reset transform on mouse leave
-      document.addEventListener('mouseleave', () => {
-        const cards = document.querySelectorAll('.card');
-        cards.forEach(card => {
-          card.style.transform = 'perspective(1000px) rotateX(0deg) rotateY(0deg) translateZ(0px)';
-        });
-      });
-    </script>
-  </body>
-</html>`;
-      
-      setSections(prev => prev.map(s => 
-        s.id === sectionId ? { ...s, code: animationCode } : s
-      ));
+      const animationCode = renderAnimation(section, classifierRules);
+      applyCanvasChange(sectionId, "code", animationCode, "template");
     } catch (error) {
       console.error('Error generating animation:', error);
       alert('Failed to generate animation. Please try again.');
     } finally {
-      setGeneratingMermaid(null);
+      setGenerating(sectionId, false);
     }
-  }, [sections]);
+  }, [sections, applyCanvasChange, setGenerating, classifierRules]);
+
+  const handleStartBatch = useCallback(({ sectionIds, kinds, concurrency, replaceExisting }: BatchRequest) => {
+    const byId = new Map(sections.map(s => [s.id, s]));
+    batch.start(sectionIds, async (sectionId, signal) => {
+      const section = byId.get(sectionId);
+      if (!section) throw new Error("Section no longer exists");
+      // The animation goes first so a new diagram ends up as the canvas on show
+      if (kinds.animations && (replaceExisting || section.code === undefined)) {
+        applyCanvasChange(sectionId, "code", renderAnimation(section, classifierRules), "template");
+      }
+      if (kinds.diagrams && (replaceExisting || section.mermaidCode === undefined)) {
+        const { source, origin } = await buildDiagram(section, signal);
+        if (!signal.aborted) applyCanvasChange(sectionId, "mermaid", source, origin);
+      }
+    }, concurrency);
+  }, [sections, batch, applyCanvasChange, buildDiagram, classifierRules]);
+
+  const generateChart = useCallback((sectionId: string) => {
+    const section = sections.find(s => s.id === sectionId);
+    const spec = section && extractChartSpec(section);
+    if (!spec) return;
+    applyCanvasChange(sectionId, "chart", stringifyChartSpec(spec), "template");
+  }, [sections, applyCanvasChange]);
+
+  const handleChangeChartType = useCallback((sectionId: string, type: ChartType) => {
+    const section = sections.find(s => s.id === sectionId);
+    const check = section?.chartSpec ? parseChartSpec(section.chartSpec) : undefined;
+    if (!check?.ok || check.spec.type === type) return;
+    applyCanvasChange(sectionId, "chart", stringifyChartSpec({ ...check.spec, type }), "manual");
+  }, [sections, applyCanvasChange]);
+
+  // Sections with a table or figures to plot get the chart option
+  const chartableIds = useMemo(
+    () => new Set(sections.filter(s => extractChartSpec(s) !== null).map(s => s.id)),
+    [sections]
+  );
+
+  // An existing animation is re-rendered with the new template; the old one stays in history
+  const handleChooseTemplate = useCallback((sectionId: string, templateId: string | undefined) => {
+    const section = sections.find(s => s.id === sectionId);
+    if (!section) return;
+    const updated = { ...section, templateId };
+    setSections(prev => prev.map(s => s.id === sectionId ? updated : s));
+    if (section.code !== undefined) {
+      applyCanvasChange(sectionId, "code", renderAnimation(updated, classifierRules), "template");
+    }
+  }, [sections, applyCanvasChange, classifierRules]);
+
+  const classifications = useMemo(
+    () => new Map(sections.map(s => [s.id, classifySection(s, classifierRules)])),
+    [sections, classifierRules]
+  );
+
+  const handleExportPresentation = useCallback(async () => {
+    setExporting(true);
+    try {
+      const html = await buildReportPresentation(projectTitle, numberedSections);
+      downloadFile(`${fileSlug(projectTitle)}.html`, html, "text/html");
+    } catch (error) {
+      console.error("Error exporting presentation:", error);
+      alert("Failed to export the presentation. Please try again.");
+    } finally {
+      setExporting(false);
+    }
+  }, [projectTitle, numberedSections]);
+
+  // Writes the report back out with its canvases; animation and chart files come along in a zip
+  const handleExportMarkdown = useCallback(() => {
+    const { markdown, assets } = buildMarkdownExport(rawMarkdown, canvasDepth, sections);
+    const name = fileSlug(projectTitle);
+    if (Object.keys(assets).length === 0) {
+      downloadFile(`${name}.md`, markdown, "text/markdown");
+      return;
+    }
+    const files: Record<string, Uint8Array> = { [`${name}.md`]: strToU8(markdown) };
+    for (const [path, html] of Object.entries(assets)) files[path] = strToU8(html);
+    downloadFile(`${name}-markdown.zip`, zipSync(files), "application/zip");
+  }, [rawMarkdown, canvasDepth, sections, projectTitle]);
+
+  const handleDownloadDiagram = useCallback(async (sectionId: string, format: "svg" | "png") => {
+    const node = numberedSections.find(n => n.section.id === sectionId);
+    if (!node?.section.mermaidCode) return;
+    const name = sectionFileName(node.number, node.section.heading);
+    try {
+      const diagram = await renderMermaid(node.section.mermaidCode);
+      if (!diagram.ok) throw new Error(diagram.error.message);
+      if (format === "svg") downloadFile(`${name}.svg`, diagram.svg, "image/svg+xml");
+      else downloadFile(`${name}.png`, await svgToPng(diagram.svg), "image/png");
+    } catch (error) {
+      console.error("Error exporting diagram:", error);
+      alert("Failed to export the diagram. Check it for syntax errors and try again.");
+    }
+  }, [numberedSections]);
+
+  const handleClosePresenter = useCallback(() => setPresenting(false), []);
+
+  // Sections with a canvas to record, with the document each one shows
+  const videoTargets = useMemo<VideoTarget[]>(() => numberedSections.flatMap(({ section, number }) => {
+    const sources = {
+      mermaidCode: section.mermaidCode,
+      chartSpec: section.chartSpec,
+      animationCode: section.code,
+      show: section.canvasKind,
+    };
+    if (!shownCanvasKind(sources)) return [];
+    return [{
+      id: section.id,
+      label: `${number}. ${section.heading}`,
+      filename: sectionFileName(number, section.heading),
+      loadHtml: () => renderCanvasSrcDoc(sources),
+    }];
+  }), [numberedSections]);
+
+  const historySection = sections.find(s => s.id === historySectionId);
+  const chatSection = chatTarget ? sections.find(s => s.id === chatTarget.sectionId) : undefined;
+  const chatKey = chatTarget ? `${chatTarget.sectionId}:${chatTarget.kind}` : "";
+
+  if (loadError) {
+    return <div className="w-full max-w-5xl mx-auto text-red-600">{loadError}</div>;
+  }
+
+  if (!loaded) {
+    return <div className="w-full max-w-5xl mx-auto animate-pulse text-gray-500">Loading project…</div>;
+  }
 
   return (
     <div className="w-full max-w-5xl mx-auto space-y-6">
       <div className="space-y-2">
-        <label className="text-sm font-medium text-gray-600">Paste markdown</label>
+        <div className="flex items-center justify-between">
+          <label className="text-sm font-medium text-gray-600">Paste markdown</label>
+          <div className="flex items-center gap-3">
+            <span className={`text-xs ${autosaveStatus === "error" ? "text-red-600" : "text-gray-500"}`}>
+              {autosaveLabels[autosaveStatus]}
+            </span>
+            <button
+              onClick={dictation.active ? dictation.stop : dictation.start}
+              disabled={dictation.busy}
+              className={`px-3 py-1 rounded text-xs font-semibold disabled:opacity-50 ${
+                dictation.active ? "bg-red-600 text-white hover:bg-red-700" : "border border-gray-300 text-gray-700 hover:bg-gray-100"
+              }`}
+            >
+              {dictation.active ? "Stop dictation" : "Dictate"}
+            </button>
+          </div>
+        </div>
         <textarea
+          ref={dictation.textareaRef}
           value={rawMarkdown}
           onChange={(e) => setRawMarkdown(e.target.value)}
           className="w-full h-48 p-3 rounded border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm"
           placeholder="Paste your markdown here..."
         />
-        <button
-          onClick={handleParse}
-          className="px-4 py-2 rounded bg-blue-600 text-white font-semibold hover:bg-blue-700"
-        >
-          Parse sections
-        </button>
+        <DictationBar active={dictation.active} listening={dictation.listening} interim={dictation.interim} error={dictation.error} />
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            onClick={handleParse}
+            className="px-4 py-2 rounded bg-blue-600 text-white font-semibold hover:bg-blue-700"
+          >
+            Parse sections
+          </button>
+          <label className="text-sm text-gray-600 flex items-center gap-2">
+            One canvas per
+            <select
+              value={canvasDepth}
+              onChange={(e) => setCanvasDepth(Number(e.target.value))}
+              className="px-2 py-1 rounded border border-gray-300 text-sm"
+            >
+              {Array.from({ length: MAX_HEADING_LEVEL }, (_, i) => i + 1).map(level => (
+                <option key={level} value={level}>
+                  {level === MAX_HEADING_LEVEL ? "heading (any level)" : `H${level} and above`}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            onClick={() => setNotesOpen(true)}
+            className="ml-auto px-4 py-2 rounded border font-semibold text-gray-700 hover:bg-gray-50"
+          >
+            Voice notes
+          </button>
+          <button
+            onClick={() => setPresenting(true)}
+            disabled={sections.length === 0}
+            className="px-4 py-2 rounded border font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Present
+          </button>
+          <button
+            onClick={() => setVideoExportIds(videoTargets.map(t => t.id))}
+            disabled={videoTargets.length === 0}
+            className="px-4 py-2 rounded border font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Export videos
+          </button>
+          <button
+            onClick={handleExportPresentation}
+            disabled={sections.length === 0 || exporting}
+            className="px-4 py-2 rounded border font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            {exporting ? "Exporting…" : "Export presentation"}
+          </button>
+          <button
+            onClick={handleExportMarkdown}
+            disabled={sections.length === 0}
+            className="px-4 py-2 rounded border font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Export markdown
+          </button>
+        </div>
+        <LlmSettings value={llmOptions} onChange={setLlmOptions} />
+        <ClassifierSettings value={classifierRules} onSave={saveClassifierRules} />
       </div>
 
       {sections.length > 0 && (
-        <div className="space-y-10">
-          {sections.map((s, idx) => (
-            <div key={s.id} className="space-y-3">
-              <h3 className="text-2xl font-bold">{idx + 1}. {s.heading}</h3>
-              <p className="whitespace-pre-wrap text-gray-700">{s.body}</p>
-              
-              {/* Unified Animation & Mermaid Section */}
-              <div className="space-y-2">
-                <UnifiedCanvas
-                  mermaidCode={s.mermaidCode}
-                  animationCode={s.code}
-                  onEditAnimation={() => handleOpenEditor(s.id)}
-                  onGenerateMermaid={() => generateMermaidDiagram(s.id)}
-                  onGenerateAnimation={() => generateAnimation(s.id)}
-                  isGenerating={generatingMermaid === s.id}
-                />
-              </div>
+        <BatchGenerate
+          sections={numberedSections.map(({ section, number }) => ({ id: section.id, label: `${number}. ${section.heading}` }))}
+          statuses={batch.statuses}
+          errors={batch.errors}
+          running={batch.running}
+          progress={batch.progress}
+          onStart={handleStartBatch}
+          onCancel={batch.cancel}
+        />
+      )}
+
+      {orphans.length > 0 && (
+        <OrphanedCanvases
+          orphans={orphans}
+          sections={numberedSections.map(({ section, number }) => ({ id: section.id, label: `${number}. ${section.heading}` }))}
+          onReattach={handleReattachOrphan}
+          onDiscard={handleDiscardOrphan}
+        />
+      )}
+
+      {sections.length > 0 && (
+        <div className="lg:grid lg:grid-cols-[14rem_1fr] lg:gap-8">
+          <aside className="hidden lg:block">
+            <div className="sticky top-6 max-h-[calc(100vh-3rem)] overflow-y-auto">
+              <SectionOutline nodes={outline} onSelect={handleJumpToSection} />
             </div>
-          ))}
+          </aside>
+          <div className="space-y-10 min-w-0">
+            {numberedSections.map(({ section: s, number }) => (
+              <div key={s.id} id={`section-${s.id}`} className="space-y-3 scroll-mt-6">
+                <div className="flex items-center gap-3">
+                  <h3 className={`${headingSizes[s.level] ?? "text-lg"} font-bold`}>{number}. {s.heading}</h3>
+                  <CategoryBadge classification={classifications.get(s.id)} />
+                  {batch.statuses[s.id] && (
+                    <span
+                      className={`rounded px-2 py-0.5 text-xs ${batchStatusStyles[batch.statuses[s.id]]}`}
+                      title={batch.errors[s.id]}
+                    >
+                      {batchStatusLabels[batch.statuses[s.id]]}
+                    </span>
+                  )}
+                </div>
+                <p className="whitespace-pre-wrap text-gray-700">{s.body}</p>
+                
+                {/* Unified Animation & Mermaid Section */}
+                <div className="space-y-2">
+                  <div className="flex items-center justify-end gap-4 text-xs text-gray-600">
+                    {s.chartSpec && shownCanvasKind({ mermaidCode: s.mermaidCode, chartSpec: s.chartSpec, animationCode: s.code, show: s.canvasKind }) === "chart" && (
+                      <ChartTypePicker chartSpec={s.chartSpec} onChange={(type) => handleChangeChartType(s.id, type)} />
+                    )}
+                    <TemplatePicker
+                      section={s}
+                      rules={classifierRules}
+                      onChange={(templateId) => handleChooseTemplate(s.id, templateId)}
+                    />
+                  </div>
+                  <UnifiedCanvas
+                    mermaidCode={s.mermaidCode}
+                    chartSpec={s.chartSpec}
+                    animationCode={s.code}
+                    show={s.canvasKind}
+                    onEditAnimation={() => handleOpenEditor(s.id)}
+                    onGenerateMermaid={() => generateMermaidDiagram(s.id)}
+                    onGenerateAnimation={() => generateAnimation(s.id)}
+                    onGenerateChart={chartableIds.has(s.id) ? () => generateChart(s.id) : undefined}
+                    onShowHistory={() => setHistorySectionId(s.id)}
+                    onExportVideo={() => setVideoExportIds([s.id])}
+                    onDownloadDiagram={(format) => handleDownloadDiagram(s.id, format)}
+                    onRepairMermaid={() => repairMermaidDiagram(s.id)}
+                    onOpenChat={(kind) => setChatTarget({ sectionId: s.id, kind })}
+                    isGenerating={generatingIds.has(s.id) || batch.statuses[s.id] === "running"}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
         </div>
       )}
 
+      {historySection && (
+        <RevisionHistoryDrawer
+          heading={historySection.heading}
+          current={{ code: historySection.code, mermaid: historySection.mermaidCode, chart: historySection.chartSpec }}
+          loadRevisions={loadHistory}
+          onRestore={handleRestoreRevision}
+          onClose={() => setHistorySectionId(null)}
+        />
+      )}
+
+      {notesOpen && (
+        <VoiceNotesDrawer onSendToReport={handleSendNoteToReport} onClose={() => setNotesOpen(false)} />
+      )}
+
+      {chatTarget && chatSection && (
+        <CanvasChat
+          kind={chatTarget.kind}
+          heading={chatSection.heading}
+          sectionText={chatSection.body}
+          currentSource={chatSection[revisionFields[chatTarget.kind]] ?? ""}
+          turns={chatTurns[chatKey] ?? []}
+          llmOptions={llmOptions}
+          onTurnsChange={(turns) => setChatTurns(prev => ({ ...prev, [chatKey]: turns }))}
+          onAccept={(source) => applyCanvasChange(chatSection.id, chatTarget.kind, source, "ai-chat")}
+          onClose={() => setChatTarget(null)}
+        />
+      )}
+
       {editingSectionId && (
         <CodeEditorModal
           value={tempCode}
@@ -353,187 +614,134 @@ export default function MarkdownAnimator() {
           onSave={handleSaveCode}
         />
       )}
+
+      {videoExportIds && (
+        <VideoExport
+          targets={videoTargets.filter(t => videoExportIds.includes(t.id))}
+          archiveName={`${fileSlug(projectTitle)}-videos`}
+          onClose={() => setVideoExportIds(null)}
+        />
+      )}
+
+      {presenting && (
+        <PresenterMode title={projectTitle} sections={numberedSections} onClose={handleClosePresenter} />
+      )}
     </div>
   );
 }
 
-const defaultBlankSnippet = `<!doctype html>
-<html>
-  <head>
-    <meta charset="utf-8" />
-    <meta name="viewport" content="width=device-width, initial-scale=1" />
-    <style>
-      html, body { margin: 0; padding: 0; height: 100%; }
-      .center { display: grid; place-items: center; height: 100%; font: 16px system-ui; }
-    </style>
-  </head>
-  <body>
-    <div class="center">Click the canvas to edit and paste your code.</div>
-    <script>
-      // You can paste your JS here. Include script tags to load libraries if needed.
-      // Example: simple animation without external libs
-      const el = document.querySelector('.center');
-      let t = 0;
-      setInterval(() => { el.style.transform = 'scale(' + (1 + 0.05*Math.sin(t)) + ')'; t += 0.2; }, 30);
-    </script>
-  </body>
-</html>`;
+function CategoryBadge({ classification }: { classification?: Classification }) {
+  if (!classification || classification.category === "general") return null;
+  const evidence = classification.evidence.slice(0, 5).map(e => e.match).join(", ");
+
+  return (
+    <span className="rounded bg-gray-100 px-2 py-0.5 text-xs text-gray-600" title={`Evidence: ${evidence}`}>
+      {contentCategoryLabels[classification.category]} · {Math.round(classification.confidence * 100)}%
+    </span>
+  );
+}
+
+function ChartTypePicker({ chartSpec, onChange }: {
+  chartSpec: string;
+  onChange: (type: ChartType) => void;
+}) {
+  const check = parseChartSpec(chartSpec);
+  if (!check.ok) return null;
+
+  return (
+    <label className="flex items-center gap-2">
+      Chart
+      <select
+        value={check.spec.type}
+        onChange={(e) => onChange(e.target.value as ChartType)}
+        className="px-2 py-1 rounded border border-gray-300"
+      >
+        {CHART_TYPES.map(type => (
+          <option key={type} value={type}>{chartTypeLabels[type]}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+function TemplatePicker({ section, rules, onChange }: {
+  section: Section;
+  rules: ClassifierRules;
+  onChange: (templateId: string | undefined) => void;
+}) {
+  // Name what auto would pick right now, so the choice isn't a guess
+  const autoTemplate = useMemo(() => resolveTemplate({ ...section, templateId: undefined }, rules), [section, rules]);
 
+  return (
+    <label className="flex items-center gap-2">
+      Animation template
+      <select
+        value={section.templateId ?? ""}
+        onChange={(e) => onChange(e.target.value || undefined)}
+        className="px-2 py-1 rounded border border-gray-300"
+      >
+        <option value="">Auto ({autoTemplate.name})</option>
+        {getTemplates().map(template => (
+          <option key={template.id} value={template.id} title={template.description}>
+            {template.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
 
 function UnifiedCanvas({ 
   mermaidCode, 
+  chartSpec,
   animationCode, 
+  show,
   onEditAnimation, 
   onGenerateMermaid,
   onGenerateAnimation,
+  onGenerateChart,
+  onShowHistory,
+  onExportVideo,
+  onDownloadDiagram,
+  onRepairMermaid,
+  onOpenChat,
   isGenerating 
 }: { 
   mermaidCode?: string; 
+  chartSpec?: string;
   animationCode?: string; 
+  show?: RevisionKind;
   onEditAnimation: () => void; 
   onGenerateMermaid: () => void;
   onGenerateAnimation: () => void;
+  onGenerateChart?: () => void; // only offered when the section has data to plot
+  onShowHistory: () => void;
+  onExportVideo: () => void;
+  onDownloadDiagram: (format: "svg" | "png") => void;
+  onRepairMermaid: () => void;
+  onOpenChat: (kind: RevisionKind) => void;
   isGenerating: boolean;
 }) {
-  const [showChat, setShowChat] = useState(false);
-  const [chatType, setChatType] = useState<'animation' | 'mermaid'>('animation');
-  const [chatMessage, setChatMessage] = useState('');
-
-  const srcDoc = useMemo(() => {
-    if (mermaidCode) {
-      return `<!doctype html>
-<html>
-  <head>
-    <meta charset="utf-8" />
-    <meta name="viewport" content="width=device-width, initial-scale=1" />
-    <title>Mermaid Diagram</title>
-    <script src="https://cdn.jsdelivr.net/npm/mermaid@10.6.1/dist/mermaid.min.js"></script>
-    <style>
-      * { box-sizing: border-box; }
-      html, body { margin: 0; height: 100%; background: #f8fafc; font-family: system-ui, -apple-system, sans-serif; overflow: hidden; }
-      .container { 
-        display: flex; 
-        align-items: center; 
-        justify-content: center; 
-        height: 100vh; 
-        width: 100vw; 
-        padding: 20px; 
-      }
-      .mermaid { 
-        width: 100%; 
-        height: 100%; 
-        display: flex; 
-        align-items: center; 
-        justify-content: center; 
-      }
-      .mermaid svg { 
-        max-width: 100%; 
-        max-height: 100%; 
-        width: auto; 
-        height: auto; 
-      }
-    </style>
-  </head>
-  <body>
-    <div class="container">
-      <div class="mermaid">
-${mermaidCode}
-      </div>
-    </div>
-    <script>
-      mermaid.initialize({ 
-        startOnLoad: true,
-        theme: 'default',
-        flowchart: { 
-          useMaxWidth: false, 
-          htmlLabels: true,
-          width: '100%',
-          height: '100%'
-        },
-        sequence: { useMaxWidth: false },
-        class: { useMaxWidth: false }
-      });
-    </script>
-  </body>
-</html>`;
-    } else if (animationCode) {
-      return animationCode;
-    } else {
-      return defaultBlankSnippet;
-    }
-  }, [mermaidCode, animationCode]);
-
-  const handleChatSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!chatMessage.trim()) return;
-    
-    try {
-      // Use OpenAI API to process the chat message
-      const response = await fetch('/api/openai/chat', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          messages: [{
-            role: 'user',
-            content: `Modify this ${chatType} based on the request: "${chatMessage}". Return only the ${chatType === 'mermaid' ? 'Mermaid diagram code' : 'HTML animation code'}, no explanations.`
-          }]
-        })
-      });
-
-      if (!response.ok) throw new Error('Failed to process request');
-      
-      // Handle streaming response
-      const reader = response.body?.getReader();
-      if (!reader) throw new Error('No response body');
-      
-      let result = '';
-      const decoder = new TextDecoder();
-      
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-        
-        const chunk = decoder.decode(value);
-        const lines = chunk.split('\n');
-        
-        for (const line of lines) {
-          if (line.startsWith('0:')) {
-            try {
-              const data = JSON.parse(line.slice(2));
-              if (data.type === 'text-delta' && data.textDelta) {
-                result += data.textDelta;
-              }
-            } catch (e) {
-              // Skip invalid JSON lines
-            }
-          }
-        }
-      }
-      
-      // Clean up the response
-      result = result.replace(/```mermaid\n?/g, '').replace(/```html\n?/g, '').replace(/```\n?/g, '').trim();
-      
-      // Update the content based on type
-      if (chatType === 'mermaid') {
-        // This would need to be passed up to parent component
-        alert(`Mermaid diagram updated: ${result.substring(0, 100)}...`);
-      } else {
-        // This would need to be passed up to parent component  
-        alert(`Animation updated: ${result.substring(0, 100)}...`);
-      }
-      
-      setChatMessage('');
-      setShowChat(false);
-    } catch (error) {
-      console.error('Error processing chat request:', error);
-      alert('Failed to process your request. Please try again.');
-    }
-  };
+  const shown = shownCanvasKind({ mermaidCode, chartSpec, animationCode, show });
+  // Diagrams are rendered here in the app, and the frame only displays the resulting SVG
+  const mermaid = useMermaidRender(shown === "mermaid" ? mermaidCode : undefined);
+  const mermaidError = mermaid && !mermaid.ok ? mermaid.error : null;
+  const srcDoc = useMemo(
+    () => withCanvasRuntime(buildCanvasSrcDoc({ mermaidCode, mermaid, chartSpec, animationCode, show })),
+    [mermaidCode, mermaid, chartSpec, animationCode, show]
+  );
+  const { frameRef, frameKey, playback, errors, logs, play, pause, restart, seek } = useCanvasControls(srcDoc);
+  const [consoleOpen, setConsoleOpen] = useState(false);
+  // Diagrams are static, so only animations and charts get playback controls
+  const playable = (shown === "code" || shown === "chart") && !isGenerating;
+  const scriptError = errors[0];
 
   return (
     <div className="relative w-full bg-gray-50 rounded border-2 border-dashed border-gray-300 overflow-hidden" style={{ aspectRatio: "16 / 9" }}>
       <iframe
-        sandbox="allow-scripts allow-same-origin"
+        key={frameKey}
+        ref={frameRef}
+        sandbox="allow-scripts"
         className="w-full h-full"
         srcDoc={srcDoc}
       />
@@ -545,7 +753,7 @@ ${mermaidCode}
             <div className="animate-spin w-6 h-6 border-2 border-purple-600 border-t-transparent rounded-full mx-auto mb-2"></div>
             <span className="text-sm text-gray-700">Generating content...</span>
           </div>
-        ) : !mermaidCode && !animationCode ? (
+        ) : !shown ? (
           <div className="bg-white/95 backdrop-blur-sm px-8 py-6 rounded-lg shadow-lg text-center">
             <h4 className="text-lg font-semibold text-gray-800 mb-4">Choose Content Type</h4>
             <div className="flex flex-col gap-3">
@@ -561,25 +769,41 @@ ${mermaidCode}
               >
                 Generate Animation
               </button>
+              {onGenerateChart && (
+                <button
+                  onClick={onGenerateChart}
+                  className="px-6 py-3 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors font-medium"
+                >
+                  Generate Chart
+                </button>
+              )}
             </div>
-            <p className="text-xs text-gray-500 mt-3">Click either button to get started</p>
+            <p className="text-xs text-gray-500 mt-3">Pick a content type to get started</p>
           </div>
         ) : (
           <div className="bg-white/90 backdrop-blur-sm px-6 py-4 rounded-lg shadow-lg text-center">
             <div className="flex flex-col gap-3">
               <div className="flex gap-2 justify-center">
                 <button
-                  onClick={() => { setChatType('mermaid'); setShowChat(true); }}
+                  onClick={() => onOpenChat("mermaid")}
                   className="px-3 py-1 bg-purple-600 text-white rounded text-xs hover:bg-purple-700 transition-colors"
                 >
                   Edit Mermaid
                 </button>
                 <button
-                  onClick={() => { setChatType('animation'); setShowChat(true); }}
+                  onClick={() => onOpenChat("code")}
                   className="px-3 py-1 bg-blue-600 text-white rounded text-xs hover:bg-blue-700 transition-colors"
                 >
                   Edit Animation
                 </button>
+                {(chartSpec || onGenerateChart) && (
+                  <button
+                    onClick={() => onOpenChat("chart")}
+                    className="px-3 py-1 bg-emerald-600 text-white rounded text-xs hover:bg-emerald-700 transition-colors"
+                  >
+                    Edit Chart
+                  </button>
+                )}
               </div>
               <div className="flex gap-2 justify-center">
                 <button
@@ -594,48 +818,114 @@ ${mermaidCode}
                 >
                   Switch to Animation
                 </button>
+                {onGenerateChart && (
+                  <button
+                    onClick={onGenerateChart}
+                    className="px-3 py-1 bg-emerald-500 text-white rounded text-xs hover:bg-emerald-600 transition-colors"
+                  >
+                    Switch to Chart
+                  </button>
+                )}
               </div>
-            </div>
-          </div>
-        )}
-      </div>
-
-      {/* Chat Modal */}
-      {showChat && (
-        <div className="absolute inset-0 bg-black/50 flex items-center justify-center p-4">
-          <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
-            <div className="flex items-center justify-between p-4 border-b">
-              <h3 className="font-semibold">Edit {chatType === 'mermaid' ? 'Mermaid Diagram' : 'Animation'}</h3>
-              <button 
-                onClick={() => setShowChat(false)}
-                className="text-gray-500 hover:text-gray-700"
-              >
-                ✕
-              </button>
-            </div>
-            <form onSubmit={handleChatSubmit} className="p-4">
-              <textarea
-                value={chatMessage}
-                onChange={(e) => setChatMessage(e.target.value)}
-                placeholder={`Describe how you want to modify the ${chatType}...`}
-                className="w-full h-32 p-3 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
-              />
-              <div className="flex justify-end gap-2 mt-4">
+              <div className="flex gap-2 justify-center">
                 <button
-                  type="button"
-                  onClick={() => setShowChat(false)}
-                  className="px-4 py-2 text-gray-600 hover:text-gray-800"
+                  onClick={onShowHistory}
+                  className="px-3 py-1 border border-gray-300 text-gray-700 rounded text-xs hover:bg-gray-100 transition-colors"
                 >
-                  Cancel
+                  History
                 </button>
                 <button
-                  type="submit"
-                  className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+                  onClick={onExportVideo}
+                  className="px-3 py-1 border border-gray-300 text-gray-700 rounded text-xs hover:bg-gray-100 transition-colors"
                 >
-                  Apply Changes
+                  Export video
                 </button>
+                {shown === "mermaid" && (
+                  <>
+                    <button
+                      onClick={() => onDownloadDiagram("svg")}
+                      className="px-3 py-1 border border-gray-300 text-gray-700 rounded text-xs hover:bg-gray-100 transition-colors"
+                    >
+                      SVG
+                    </button>
+                    <button
+                      onClick={() => onDownloadDiagram("png")}
+                      className="px-3 py-1 border border-gray-300 text-gray-700 rounded text-xs hover:bg-gray-100 transition-colors"
+                    >
+                      PNG
+                    </button>
+                  </>
+                )}
               </div>
-            </form>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {mermaid?.ok && !isGenerating && (
+        <div
+          className="absolute bottom-2 right-2 rounded bg-white/90 px-2 py-0.5 text-xs text-gray-600 shadow"
+          title={mermaid.nodes.map(node => node.label || node.id).join("\n")}
+        >
+          {mermaid.diagramType} · {mermaid.nodes.length} node{mermaid.nodes.length === 1 ? "" : "s"}
+        </div>
+      )}
+
+      {mermaidError && !isGenerating && (
+        <div className="absolute bottom-2 left-2 right-2 bg-red-50/95 border border-red-300 rounded-lg px-4 py-3 text-left shadow">
+          <div className="flex items-start justify-between gap-4">
+            <div className="min-w-0">
+              <p className="text-sm font-semibold text-red-800">
+                Mermaid syntax error{mermaidError.line !== undefined ? ` on line ${mermaidError.line}` : ""}
+              </p>
+              {mermaidError.lineText && (
+                <code className="block truncate text-xs text-red-900 bg-red-100 rounded px-2 py-1 mt-1">{mermaidError.lineText}</code>
+              )}
+              <pre className="text-xs text-red-700 whitespace-pre-wrap mt-1 max-h-16 overflow-y-auto">{mermaidError.message}</pre>
+            </div>
+            <button
+              onClick={onRepairMermaid}
+              className="shrink-0 px-3 py-1 bg-red-600 text-white rounded text-xs hover:bg-red-700 transition-colors"
+            >
+              Repair
+            </button>
+          </div>
+        </div>
+      )}
+
+      {playable && (
+        <PlaybackBar
+          playback={playback}
+          logCount={logs.length}
+          consoleOpen={consoleOpen}
+          onPlay={play}
+          onPause={pause}
+          onRestart={restart}
+          onSeek={seek}
+          onToggleConsole={() => setConsoleOpen(open => !open)}
+        />
+      )}
+
+      {playable && consoleOpen && <ConsoleLog logs={logs} />}
+
+      {playable && scriptError && (
+        <div className="absolute bottom-2 left-2 right-2 bg-red-50/95 border border-red-300 rounded-lg px-4 py-3 text-left shadow">
+          <div className="flex items-start justify-between gap-4">
+            <div className="min-w-0">
+              <p className="text-sm font-semibold text-red-800">
+                Script error{scriptError.line !== undefined ? ` on line ${scriptError.line}` : ""}
+                {errors.length > 1 ? ` (and ${errors.length - 1} more)` : ""}
+              </p>
+              <pre className="text-xs text-red-700 whitespace-pre-wrap mt-1 max-h-16 overflow-y-auto">{scriptError.message}</pre>
+            </div>
+            {shown === "code" && (
+              <button
+                onClick={onEditAnimation}
+                className="shrink-0 px-3 py-1 bg-red-600 text-white rounded text-xs hover:bg-red-700 transition-colors"
+              >
+                Edit code
+              </button>
+            )}
           </div>
         </div>
       )}
@@ -643,6 +933,153 @@ ${mermaidCode}
   );
 }
 
+const formatPlaybackTime = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+// Canvases without a fixed length get a slider that grows as they play
+const DEFAULT_TIMELINE_MS = 10000;
+
+function PlaybackBar({ playback, logCount, consoleOpen, onPlay, onPause, onRestart, onSeek, onToggleConsole }: {
+  playback: CanvasPlayback;
+  logCount: number;
+  consoleOpen: boolean;
+  onPlay: () => void;
+  onPause: () => void;
+  onRestart: () => void;
+  onSeek: (time: number) => void;
+  onToggleConsole: () => void;
+}) {
+  const end = playback.duration ?? Math.max(DEFAULT_TIMELINE_MS, playback.time);
+  return (
+    <div className="absolute top-2 left-2 flex items-center gap-2 rounded bg-white/90 px-2 py-1 text-xs text-gray-700 shadow">
+      <button
+        onClick={playback.playing ? onPause : onPlay}
+        disabled={!playback.ready}
+        className="w-6 hover:text-black disabled:opacity-50"
+        title={playback.playing ? "Pause" : "Play"}
+      >
+        {playback.playing ? "❚❚" : "▶"}
+      </button>
+      <button onClick={onRestart} className="hover:text-black" title="Restart">↺</button>
+      <input
+        type="range"
+        min={0}
+        max={end}
+        step={100}
+        value={Math.min(playback.time, end)}
+        disabled={!playback.ready}
+        onChange={(e) => onSeek(Number(e.target.value))}
+        className="w-32"
+      />
+      <span className="tabular-nums">
+        {formatPlaybackTime(playback.time)}{playback.duration !== null ? ` / ${formatPlaybackTime(playback.duration)}` : ""}
+      </span>
+      <button
+        onClick={onToggleConsole}
+        className={`px-1.5 rounded ${consoleOpen ? "bg-gray-200" : "hover:bg-gray-100"}`}
+      >
+        Console{logCount > 0 ? ` (${logCount})` : ""}
+      </button>
+    </div>
+  );
+}
+
+const consoleLevelStyles: Record<CanvasLog["level"], string> = {
+  log: "text-gray-100",
+  info: "text-sky-300",
+  warn: "text-amber-300",
+  error: "text-red-300",
+  debug: "text-gray-400",
+};
+
+function ConsoleLog({ logs }: { logs: CanvasLog[] }) {
+  return (
+    <div className="absolute top-11 left-2 right-2 max-h-40 overflow-y-auto rounded bg-gray-900/90 px-3 py-2 font-mono text-xs shadow">
+      {logs.length === 0 ? (
+        <p className="text-gray-400">No console output.</p>
+      ) : (
+        logs.map((log, i) => (
+          <pre key={i} className={`whitespace-pre-wrap ${consoleLevelStyles[log.level]}`}>{log.text}</pre>
+        ))
+      )}
+    </div>
+  );
+}
+
+function DictationBar({ active, listening, interim, error }: {
+  active: boolean;
+  listening: boolean;
+  interim: string;
+  error: string | null;
+}) {
+  if (error && !active) return <p className="text-xs text-red-600">{error}</p>;
+  if (!active) return null;
+  return (
+    <div className="rounded border border-gray-200 bg-gray-50 px-3 py-2 text-xs space-y-1">
+      <p className="flex items-center gap-2 text-gray-600">
+        <span className={`inline-block w-2 h-2 rounded-full ${listening ? "bg-red-500 animate-pulse" : "bg-gray-400"}`} />
+        {listening ? "Listening…" : "Connecting…"}
+        {/* Not final yet: Deepgram may still change these words before they go in the text */}
+        {interim && <span className="italic text-gray-400">{interim}</span>}
+      </p>
+      <p className="text-gray-500">
+        Say {Object.values(dictationPhrases).map(phrase => `“${phrase}”`).join(", ")}. Text goes in at the cursor.
+      </p>
+    </div>
+  );
+}
+
+function OrphanedCanvases({ orphans, sections, onReattach, onDiscard }: {
+  orphans: Section[];
+  sections: { id: string; label: string }[];
+  onReattach: (orphanId: string, targetId: string) => void;
+  onDiscard: (orphanId: string) => void;
+}) {
+  const [targets, setTargets] = useState<Record<string, string>>({});
+
+  return (
+    <div className="rounded border border-amber-300 bg-amber-50 p-4 space-y-3">
+      <div>
+        <h4 className="font-semibold text-amber-900">Canvases without a section</h4>
+        <p className="text-sm text-amber-800">
+          These sections were removed or changed too much in the last parse. Reattach their canvases or discard them.
+        </p>
+      </div>
+      <ul className="space-y-2">
+        {orphans.map(orphan => {
+          const target = targets[orphan.id] ?? sections[0]?.id ?? "";
+          return (
+            <li key={orphan.id} className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="font-medium text-gray-800">{orphan.heading}</span>
+              <span className="text-gray-500">
+                ({[orphan.mermaidCode && "diagram", orphan.chartSpec && "chart", orphan.code && "animation"].filter(Boolean).join(", ")})
+              </span>
+              <select
+                value={target}
+                onChange={(e) => setTargets(prev => ({ ...prev, [orphan.id]: e.target.value }))}
+                className="ml-auto px-2 py-1 rounded border border-gray-300"
+              >
+                {sections.map(s => (
+                  <option key={s.id} value={s.id}>{s.label}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => onReattach(orphan.id, target)}
+                disabled={!target}
+                className="px-3 py-1 rounded bg-amber-600 text-white hover:bg-amber-700 disabled:opacity-50"
+              >
+                Reattach
+              </button>
+              <button onClick={() => onDiscard(orphan.id)} className="px-3 py-1 rounded border">
+                Discard
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
 function CodeEditorModal({ value, onChange, onClose, onSave }: {
   value: string;
   onChange: (v: string) => void;
@@ -663,6 +1100,7 @@ function CodeEditorModal({ value, onChange, onClose, onSave }: {
             className="w-full h-96 p-3 rounded border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-xs"
             spellCheck={false}
           />
+          <BlockedApiWarning code={value} className="mt-4" />
           <div className="flex justify-end gap-2 pt-4">
             <button onClick={onClose} className="px-4 py-2 rounded border">Cancel</button>
             <button onClick={onSave} className="px-4 py-2 rounded bg-blue-600 text-white font-semibold hover:bg-blue-700">Save</button>
@@ -0,0 +1,184 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { withCanvasRuntime } from "../lib/canvas/runtime";
+import { buildCanvasSrcDoc, shownCanvasKind } from "../lib/canvas/srcDoc";
+import { markdownToHtml } from "../lib/export/markdownHtml";
+import { useMermaidRender } from "../lib/hooks/useMermaidRender";
+import type { OutlineNode } from "../lib/markdown/sections";
+import { notesDocument, renderNotes, type NotesSlide } from "../lib/presenter/notes";
+
+const nextKeys = ["ArrowRight", "ArrowDown", "PageDown", " ", "Enter"];
+const previousKeys = ["ArrowLeft", "ArrowUp", "PageUp", "Backspace"];
+
+// Full-screen slideshow of the report, one section per screen. Clickers send Page Up/Down,
+// so they work like the arrow keys. Entering a slide remounts its frame, which restarts the animation.
+export default function PresenterMode({ title, sections, onClose }: {
+  title: string;
+  sections: OutlineNode[]; // numbered and in outline order
+  onClose: () => void;
+}) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const notesWindowRef = useRef<Window | null>(null);
+  const [index, setIndex] = useState(0);
+  const [restarts, setRestarts] = useState(0);
+  const [notesOpen, setNotesOpen] = useState(false);
+
+  const slides = useMemo<NotesSlide[]>(() => sections.map(({ number, section }) => ({
+    number,
+    heading: section.heading,
+    bodyHtml: markdownToHtml(section.body),
+  })), [sections]);
+
+  const current = sections[index]?.section;
+  const shown = current
+    ? shownCanvasKind({ mermaidCode: current.mermaidCode, chartSpec: current.chartSpec, animationCode: current.code, show: current.canvasKind })
+    : null;
+  const mermaid = useMermaidRender(shown === "mermaid" ? current?.mermaidCode : undefined);
+  const srcDoc = useMemo(() => {
+    if (!current || !shown) return null;
+    return withCanvasRuntime(buildCanvasSrcDoc({
+      mermaidCode: current.mermaidCode,
+      mermaid,
+      chartSpec: current.chartSpec,
+      animationCode: current.code,
+      show: current.canvasKind,
+    }));
+  }, [current, shown, mermaid]);
+
+  const goTo = useCallback((target: number) => {
+    setIndex(Math.max(0, Math.min(sections.length - 1, target)));
+  }, [sections.length]);
+
+  const handleKeyDown = useCallback((e: KeyboardEvent) => {
+    if (nextKeys.includes(e.key)) goTo(index + 1);
+    else if (previousKeys.includes(e.key)) goTo(index - 1);
+    else if (e.key === "Home") goTo(0);
+    else if (e.key === "End") goTo(sections.length - 1);
+    else if (e.key === "r" || e.key === "R") setRestarts(n => n + 1);
+    else if (e.key === "Escape") onClose();
+    else return;
+    e.preventDefault();
+  }, [goTo, index, sections.length, onClose]);
+
+  // The notes window forwards its keys here, so the presenter can drive the slides from either screen
+  const keyHandlerRef = useRef(handleKeyDown);
+  useEffect(() => {
+    keyHandlerRef.current = handleKeyDown;
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [handleKeyDown]);
+
+  const closeRef = useRef(onClose);
+  useEffect(() => {
+    closeRef.current = onClose;
+  }, [onClose]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    container?.requestFullscreen?.().catch(() => {
+      // Fullscreen can be refused (e.g. inside an iframe); the overlay still covers the window
+    });
+
+    // Leaving fullscreen with the browser's own Escape handling ends the presentation too
+    const handleFullscreenChange = () => {
+      if (!document.fullscreenElement) closeRef.current();
+    };
+    document.addEventListener("fullscreenchange", handleFullscreenChange);
+    return () => {
+      document.removeEventListener("fullscreenchange", handleFullscreenChange);
+      if (document.fullscreenElement === container) document.exitFullscreen().catch(() => {});
+    };
+  }, []);
+
+  useEffect(() => () => notesWindowRef.current?.close(), []);
+
+  const openNotes = useCallback(() => {
+    if (notesWindowRef.current && !notesWindowRef.current.closed) {
+      notesWindowRef.current.focus();
+      return;
+    }
+    const notesWindow = window.open("", "presenter-notes", "width=720,height=600");
+    if (!notesWindow) {
+      alert("Allow pop-ups for this site to open the presenter notes.");
+      return;
+    }
+    notesWindow.document.open();
+    notesWindow.document.write(notesDocument);
+    notesWindow.document.close();
+    notesWindow.addEventListener("keydown", e => keyHandlerRef.current(e));
+    notesWindow.addEventListener("beforeunload", () => setNotesOpen(false));
+    notesWindowRef.current = notesWindow;
+    setNotesOpen(true);
+  }, []);
+
+  useEffect(() => {
+    const notesWindow = notesWindowRef.current;
+    if (!notesOpen || !notesWindow || notesWindow.closed || !slides[index]) return;
+    notesWindow.document.body.innerHTML = renderNotes(slides[index], index + 1, slides.length, slides[index + 1]);
+  }, [notesOpen, slides, index]);
+
+  if (!current) {
+    return (
+      <div ref={containerRef} className="fixed inset-0 z-50 grid place-items-center bg-slate-900 text-slate-200">
+        <div className="space-y-4 text-center">
+          <p>{title ? `"${title}" has no sections to present.` : "There are no sections to present."}</p>
+          <button onClick={onClose} className="px-4 py-2 rounded bg-white/10 hover:bg-white/20">Close</button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div ref={containerRef} className="fixed inset-0 z-50 bg-slate-900 text-white" aria-label={`Presenting ${title}`}>
+      {srcDoc ? (
+        <div className="absolute inset-0 grid place-items-center">
+          {/* Clicks would move keyboard focus into the frame, where the slide keys no longer reach us */}
+          <iframe
+            key={`${index}-${restarts}`}
+            title={current.heading}
+            className="pointer-events-none border-0 bg-white"
+            style={{ width: "min(100vw, calc(100vh * 16 / 9))", height: "min(100vh, calc(100vw * 9 / 16))" }}
+            sandbox="allow-scripts"
+            srcDoc={srcDoc}
+          />
+        </div>
+      ) : (
+        <div key={index} className="absolute inset-0 overflow-y-auto px-[8vw] py-[10vh]">
+          <h2 className="text-[6vh] font-bold leading-tight">{current.heading}</h2>
+          <div
+            className="mt-[4vh] space-y-[2vh] text-[2.6vh] leading-relaxed text-slate-200 [&_ol]:list-decimal [&_ol]:pl-8 [&_ul]:list-disc [&_ul]:pl-8"
+            dangerouslySetInnerHTML={{ __html: slides[index].bodyHtml }}
+          />
+        </div>
+      )}
+
+      <div className="group absolute inset-x-0 bottom-0">
+        <div className="flex items-center gap-3 bg-gradient-to-t from-black/70 to-transparent px-4 pb-3 pt-8 text-sm opacity-0 transition-opacity group-hover:opacity-100 focus-within:opacity-100">
+          <span className="min-w-0 flex-1 truncate text-slate-200">
+            {sections[index].number}. {current.heading}
+          </span>
+          <button onClick={() => goTo(index - 1)} disabled={index === 0} className="px-2 py-1 rounded bg-white/10 hover:bg-white/20 disabled:opacity-40" aria-label="Previous slide">
+            ←
+          </button>
+          <span className="tabular-nums text-slate-300">{index + 1} / {sections.length}</span>
+          <button onClick={() => goTo(index + 1)} disabled={index === sections.length - 1} className="px-2 py-1 rounded bg-white/10 hover:bg-white/20 disabled:opacity-40" aria-label="Next slide">
+            →
+          </button>
+          <button onClick={() => setRestarts(n => n + 1)} className="px-2 py-1 rounded bg-white/10 hover:bg-white/20" title="Restart animation (R)">
+            Restart
+          </button>
+          <button onClick={openNotes} className="px-2 py-1 rounded bg-white/10 hover:bg-white/20">
+            {notesOpen ? "Show notes" : "Presenter notes"}
+          </button>
+          <button onClick={onClose} className="px-2 py-1 rounded bg-white/10 hover:bg-white/20" title="Exit (Esc)">
+            Exit
+          </button>
+        </div>
+        <div className="h-1 bg-white/10">
+          <div className="h-full bg-sky-400 transition-all" style={{ width: `${((index + 1) / sections.length) * 100}%` }} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import {
+  createProject,
+  deleteProject,
+  duplicateProject,
+  listProjects,
+  renameProject,
+  type ProjectSummary,
+} from "../lib/supabase/projects";
+import { errorMessage } from "../lib/errors";
+
+export default function ProjectDashboard({ onOpen, onPresent }: {
+  onOpen: (projectId: string) => void;
+  onPresent: (projectId: string) => void;
+}) {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+
+  const refresh = useCallback(async () => {
+    try {
+      setProjects(await listProjects());
+      setError("");
+    } catch (err) {
+      console.error("Error listing projects:", err);
+      setError(errorMessage(err, "Failed to load projects"));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Runs a project action, then reloads the list so timestamps and order stay current
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (err) {
+      console.error("Error updating project:", err);
+      setError(errorMessage(err, "Something went wrong"));
+    }
+    await refresh();
+  };
+
+  const handleCreate = async () => {
+    try {
+      const project = await createProject();
+      onOpen(project.id);
+    } catch (err) {
+      console.error("Error creating project:", err);
+      setError(errorMessage(err, "Failed to create project"));
+    }
+  };
+
+  const handleRename = (projectId: string) => {
+    const title = renameValue.trim();
+    setRenamingId(null);
+    if (title) run(() => renameProject(projectId, title));
+  };
+
+  const handleDelete = (project: ProjectSummary) => {
+    if (!confirm(`Delete "${project.title}"? This can't be undone.`)) return;
+    run(() => deleteProject(project.id));
+  };
+
+  return (
+    <div className="w-full max-w-5xl mx-auto space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold">Your projects</h2>
+        <button
+          onClick={handleCreate}
+          className="px-4 py-2 rounded bg-blue-600 text-white font-semibold hover:bg-blue-700"
+        >
+          New project
+        </button>
+      </div>
+
+      {error && <div className="text-red-600 text-sm">{error}</div>}
+
+      {loading ? (
+        <div className="animate-pulse text-gray-500">Loading projects…</div>
+      ) : projects.length === 0 ? (
+        <p className="text-gray-600">No projects yet. Create one to paste your first report.</p>
+      ) : (
+        <ul className="divide-y rounded border border-gray-200">
+          {projects.map(project => (
+            <li key={project.id} className="flex items-center gap-4 p-4">
+              <div className="flex-1 min-w-0">
+                {renamingId === project.id ? (
+                  <form onSubmit={(e) => { e.preventDefault(); handleRename(project.id); }}>
+                    <input
+                      autoFocus
+                      value={renameValue}
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      onBlur={() => handleRename(project.id)}
+                      className="w-full px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </form>
+                ) : (
+                  <button
+                    onClick={() => onOpen(project.id)}
+                    className="block truncate text-left font-semibold text-gray-900 hover:text-blue-600"
+                  >
+                    {project.title}
+                  </button>
+                )}
+                <p className="text-xs text-gray-500">
+                  Edited {formatDistanceToNow(new Date(project.updatedAt), { addSuffix: true })}
+                </p>
+              </div>
+              <div className="flex gap-2 text-sm">
+                <button onClick={() => onOpen(project.id)} className="px-3 py-1 rounded border hover:bg-gray-50">
+                  Open
+                </button>
+                <button onClick={() => onPresent(project.id)} className="px-3 py-1 rounded border hover:bg-gray-50">
+                  Present
+                </button>
+                <button
+                  onClick={() => { setRenamingId(project.id); setRenameValue(project.title); }}
+                  className="px-3 py-1 rounded border hover:bg-gray-50"
+                >
+                  Rename
+                </button>
+                <button
+                  onClick={() => run(() => duplicateProject(project.id))}
+                  className="px-3 py-1 rounded border hover:bg-gray-50"
+                >
+                  Duplicate
+                </button>
+                <button
+                  onClick={() => handleDelete(project)}
+                  className="px-3 py-1 rounded border text-red-600 hover:bg-red-50"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
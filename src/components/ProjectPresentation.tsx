@@ -0,0 +1,49 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import PresenterMode from "./PresenterMode";
+import { errorMessage } from "../lib/errors";
+import { buildOutline, flattenOutline, type Section } from "../lib/markdown/sections";
+import { loadProject } from "../lib/supabase/projects";
+
+// Presents a saved project straight from the dashboard, without opening the editor
+export default function ProjectPresentation({ projectId, onClose }: {
+  projectId: string;
+  onClose: () => void;
+}) {
+  const [title, setTitle] = useState("");
+  const [sections, setSections] = useState<Section[] | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    loadProject(projectId)
+      .then(({ project, sections }) => {
+        if (cancelled) return;
+        setTitle(project.title);
+        setSections(sections);
+      })
+      .catch(err => {
+        console.error("Error loading project:", err);
+        if (!cancelled) setError(errorMessage(err, "Failed to load project"));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  const numberedSections = useMemo(() => flattenOutline(buildOutline(sections ?? [])), [sections]);
+
+  if (sections) {
+    return <PresenterMode title={title} sections={numberedSections} onClose={onClose} />;
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 grid place-items-center bg-slate-900 text-slate-200">
+      <div className="space-y-4 text-center">
+        {error ? <p className="text-red-400">{error}</p> : <p className="animate-pulse">Loading presentation…</p>}
+        <button onClick={onClose} className="px-4 py-2 rounded bg-white/10 hover:bg-white/20">Close</button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import DiffView from "./DiffView";
+import { withCanvasRuntime } from "../lib/canvas/runtime";
+import { buildCanvasSrcDoc } from "../lib/canvas/srcDoc";
+import { errorMessage } from "../lib/errors";
+import { useMermaidRender } from "../lib/hooks/useMermaidRender";
+import {
+  revisionSourceLabels,
+  type Revision,
+  type RevisionKind,
+} from "../lib/supabase/revisions";
+
+const kindLabels: Record<RevisionKind, string> = {
+  code: "Animation",
+  mermaid: "Mermaid",
+  chart: "Chart",
+};
+
+export default function RevisionHistoryDrawer({ heading, current, loadRevisions, onRestore, onClose }: {
+  heading: string;
+  current: Record<RevisionKind, string | undefined>;
+  loadRevisions: () => Promise<Revision[]>;
+  onRestore: (revision: Revision) => void;
+  onClose: () => void;
+}) {
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadRevisions()
+      .then(result => {
+        if (cancelled) return;
+        setRevisions(result);
+        setSelectedId(result[0]?.id ?? null);
+      })
+      .catch(err => {
+        console.error("Error loading revisions:", err);
+        if (!cancelled) setError(errorMessage(err, "Failed to load history"));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [loadRevisions]);
+
+  const selected = revisions.find(r => r.id === selectedId);
+  const mermaid = useMermaidRender(selected?.kind === "mermaid" ? selected.content : undefined);
+  const previewDoc = useMemo(() => {
+    if (!selected) return "";
+    const { kind, content } = selected;
+    return withCanvasRuntime(buildCanvasSrcDoc({
+      mermaidCode: kind === "mermaid" ? content : undefined,
+      mermaid,
+      chartSpec: kind === "chart" ? content : undefined,
+      animationCode: kind === "code" ? content : undefined,
+    }));
+  }, [selected, mermaid]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/40" onClick={onClose}>
+      <div
+        className="h-full w-full max-w-5xl bg-white shadow-xl flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <h4 className="font-semibold">History · {heading}</h4>
+          <button onClick={onClose} className="text-gray-600 hover:text-black">✕</button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          <ul className="w-64 shrink-0 border-r overflow-y-auto">
+            {loading && <li className="p-4 text-sm text-gray-500 animate-pulse">Loading history…</li>}
+            {error && <li className="p-4 text-sm text-red-600">{error}</li>}
+            {!loading && !error && revisions.length === 0 && (
+              <li className="p-4 text-sm text-gray-500">No revisions yet.</li>
+            )}
+            {revisions.map(revision => (
+              <li key={revision.id}>
+                <button
+                  onClick={() => setSelectedId(revision.id)}
+                  className={`w-full text-left px-4 py-2 text-sm border-b hover:bg-gray-50 ${
+                    revision.id === selectedId ? "bg-blue-50" : ""
+                  }`}
+                >
+                  <div className="font-medium text-gray-800">{format(new Date(revision.createdAt), "MMM d, HH:mm:ss")}</div>
+                  <div className="text-xs text-gray-500">
+                    {kindLabels[revision.kind]} · {revisionSourceLabels[revision.source]}
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {selected && (
+            <div className="flex-1 min-w-0 overflow-y-auto p-4 space-y-4">
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-gray-600">
+                  {kindLabels[selected.kind]} revision from {format(new Date(selected.createdAt), "PPpp")}
+                </span>
+                <button
+                  onClick={() => onRestore(selected)}
+                  disabled={selected.content === current[selected.kind]}
+                  className="px-4 py-2 rounded bg-blue-600 text-white font-semibold hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Restore
+                </button>
+              </div>
+              <div className="w-full rounded border overflow-hidden" style={{ aspectRatio: "16 / 9" }}>
+                <iframe sandbox="allow-scripts" className="w-full h-full" srcDoc={previewDoc} />
+              </div>
+              <DiffView before={current[selected.kind] ?? ""} after={selected.content} />
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
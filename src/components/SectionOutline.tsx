@@ -0,0 +1,65 @@
+"use client";
+
+import { useState } from "react";
+import type { OutlineNode } from "../lib/markdown/sections";
+
+export default function SectionOutline({ nodes, onSelect }: {
+  nodes: OutlineNode[];
+  onSelect: (sectionId: string) => void;
+}) {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const toggle = (sectionId: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(sectionId)) {
+        next.delete(sectionId);
+      } else {
+        next.add(sectionId);
+      }
+      return next;
+    });
+  };
+
+  const renderNodes = (items: OutlineNode[]) => (
+    <ul className="space-y-1">
+      {items.map(node => {
+        const isCollapsed = collapsed.has(node.section.id);
+        return (
+          <li key={node.section.id}>
+            <div className="flex items-start gap-1">
+              {node.children.length > 0 ? (
+                <button
+                  onClick={() => toggle(node.section.id)}
+                  className="w-4 shrink-0 text-xs text-gray-500 hover:text-gray-800"
+                  aria-label={isCollapsed ? "Expand" : "Collapse"}
+                >
+                  {isCollapsed ? "▸" : "▾"}
+                </button>
+              ) : (
+                <span className="w-4 shrink-0" />
+              )}
+              <button
+                onClick={() => onSelect(node.section.id)}
+                className="text-left text-sm text-gray-700 hover:text-blue-600"
+              >
+                <span className="text-gray-400 mr-1">{node.number}</span>
+                {node.section.heading}
+              </button>
+            </div>
+            {node.children.length > 0 && !isCollapsed && (
+              <div className="pl-4 pt-1">{renderNodes(node.children)}</div>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+
+  return (
+    <nav className="space-y-2">
+      <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-500">Outline</h4>
+      {renderNodes(nodes)}
+    </nav>
+  );
+}
@@ -0,0 +1,145 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { errorMessage } from "../lib/errors";
+import { listUsage, loadUsageTotals, type UsageEntry } from "../lib/supabase/usage";
+import { startOfUsageDay, usageKindLabels, type UsageKind, type UsageLimits, type UsageTotals } from "../lib/usage/limits";
+
+const usageKinds = Object.keys(usageKindLabels) as UsageKind[];
+
+const formatAmount = (kind: UsageKind, amount: number) =>
+  kind === "audioSeconds" ? amount.toFixed(1) : Math.round(amount).toLocaleString();
+
+// What the signed-in user has used of the AI routes: today against their quotas, the last
+// 30 days, and their most recent requests
+export default function UsageOverview() {
+  const [limits, setLimits] = useState<UsageLimits | null>(null);
+  const [today, setToday] = useState<UsageTotals | null>(null);
+  const [month, setMonth] = useState<UsageTotals | null>(null);
+  const [entries, setEntries] = useState<UsageEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  const refresh = useCallback(async () => {
+    try {
+      const dayStart = startOfUsageDay();
+      const monthStart = new Date(dayStart.getTime() - 29 * 86_400_000);
+      const [limitsResponse, todayTotals, monthTotals, recent] = await Promise.all([
+        fetch("/api/usage/limits", { cache: "no-store" }),
+        loadUsageTotals(dayStart),
+        loadUsageTotals(monthStart),
+        listUsage(),
+      ]);
+      setLimits(await limitsResponse.json());
+      setToday(todayTotals);
+      setMonth(monthTotals);
+      setEntries(recent);
+      setError("");
+    } catch (err) {
+      console.error("Error loading usage:", err);
+      setError(errorMessage(err, "Failed to load usage"));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return (
+    <div className="w-full max-w-5xl mx-auto space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold">Your usage</h2>
+        <button onClick={refresh} className="px-3 py-1 rounded border text-sm hover:bg-gray-50">
+          Refresh
+        </button>
+      </div>
+
+      {error && <div className="text-red-600 text-sm">{error}</div>}
+
+      {loading ? (
+        <div className="animate-pulse text-gray-500">Loading usage…</div>
+      ) : (
+        <>
+          <section className="space-y-3">
+            <h3 className="font-semibold">Today <span className="text-sm font-normal text-gray-500">(resets at midnight UTC)</span></h3>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              {usageKinds.map(kind => {
+                const used = today?.[kind] ?? 0;
+                const quota = limits?.daily[kind];
+                const fraction = quota ? Math.min(1, used / quota) : 0;
+                return (
+                  <div key={kind} className="rounded border border-gray-200 p-4 space-y-2">
+                    <div className="text-sm text-gray-600">{usageKindLabels[kind]}</div>
+                    <div className="text-lg font-semibold">
+                      {formatAmount(kind, used)}
+                      {quota !== undefined && <span className="text-sm font-normal text-gray-500"> of {formatAmount(kind, quota)}</span>}
+                    </div>
+                    <div className="h-2 w-full rounded bg-gray-100 overflow-hidden">
+                      <div
+                        className={`h-full ${fraction >= 1 ? "bg-red-500" : fraction >= 0.8 ? "bg-amber-500" : "bg-blue-600"}`}
+                        style={{ width: `${fraction * 100}%` }}
+                      />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            {limits && (
+              <p className="text-xs text-gray-500">
+                {today?.requests ?? 0} requests today; at most {limits.requestsPerMinute} a minute.
+              </p>
+            )}
+          </section>
+
+          <section className="space-y-1">
+            <h3 className="font-semibold">Last 30 days</h3>
+            <p className="text-sm text-gray-600">
+              {month?.requests ?? 0} requests · {usageKinds.map(kind => `${formatAmount(kind, month?.[kind] ?? 0)} ${usageKindLabels[kind].toLowerCase()}`).join(" · ")}
+            </p>
+          </section>
+
+          <section className="space-y-3">
+            <h3 className="font-semibold">Recent requests</h3>
+            {entries.length === 0 ? (
+              <p className="text-gray-600 text-sm">No requests yet.</p>
+            ) : (
+              <div className="overflow-x-auto rounded border border-gray-200">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 text-left text-gray-600">
+                    <tr>
+                      <th className="px-3 py-2 font-medium">When</th>
+                      <th className="px-3 py-2 font-medium">Route</th>
+                      <th className="px-3 py-2 font-medium">Model</th>
+                      <th className="px-3 py-2 font-medium text-right">Tokens in / out</th>
+                      <th className="px-3 py-2 font-medium text-right">Audio (s)</th>
+                      <th className="px-3 py-2 font-medium text-right">Images</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {entries.map(entry => (
+                      <tr key={entry.id} className={entry.ok ? "" : "text-red-600"}>
+                        <td className="px-3 py-1.5 whitespace-nowrap">{format(new Date(entry.createdAt), "MMM d, HH:mm:ss")}</td>
+                        <td className="px-3 py-1.5 font-mono text-xs">{entry.route}</td>
+                        <td className="px-3 py-1.5 truncate max-w-48" title={entry.model ?? undefined}>
+                          {entry.model ?? "—"}{entry.ok ? "" : " (failed)"}
+                        </td>
+                        <td className="px-3 py-1.5 text-right tabular-nums">
+                          {entry.inputTokens.toLocaleString()} / {entry.outputTokens.toLocaleString()}
+                        </td>
+                        <td className="px-3 py-1.5 text-right tabular-nums">{entry.audioSeconds.toFixed(1)}</td>
+                        <td className="px-3 py-1.5 text-right tabular-nums">{entry.images}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </section>
+        </>
+      )}
+    </div>
+  );
+}
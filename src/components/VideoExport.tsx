@@ -0,0 +1,214 @@
+"use client";
+
+import { useCallback, useRef, useState } from "react";
+import { zipSync } from "fflate";
+import { batchStatusLabels, batchStatusStyles } from "./BatchGenerate";
+import { errorMessage } from "../lib/errors";
+import { downloadFile } from "../lib/export/download";
+import { useBatchRun } from "../lib/hooks/useBatchRun";
+import { useRecordingSettings } from "../lib/hooks/useRecordingSettings";
+import { recordCanvas } from "../lib/recording/recorder";
+import {
+  FRAME_RATES,
+  GIF_RESOLUTIONS,
+  MAX_DURATION_SECONDS,
+  MAX_GIF_FPS,
+  MIN_DURATION_SECONDS,
+  RESOLUTIONS,
+  videoFormatLabels,
+  videoMimeTypes,
+  type Resolution,
+  type VideoFormat,
+} from "../lib/recording/settings";
+
+export type VideoTarget = {
+  id: string; // section id
+  label: string;
+  filename: string; // without extension
+  loadHtml: () => Promise<string>; // the canvas document to record
+};
+
+// Records one or more canvases to video in the browser. A single canvas downloads as
+// its own file; several are recorded one after another and downloaded as a zip.
+export default function VideoExport({ targets, archiveName, onClose }: {
+  targets: VideoTarget[];
+  archiveName: string; // zip name, without extension
+  onClose: () => void;
+}) {
+  const [settings, setSettings] = useRecordingSettings();
+  const { statuses, errors, running, progress, start, cancel } = useBatchRun();
+  const [frameProgress, setFrameProgress] = useState<Record<string, number>>({});
+  const [error, setError] = useState("");
+  const recordings = useRef(new Map<string, Blob>());
+
+  const finished = progress.done + progress.failed;
+  const runningId = targets.find(t => statuses[t.id] === "running")?.id;
+  const extension = settings.format;
+
+  const handleStart = useCallback(async () => {
+    setError("");
+    setFrameProgress({});
+    recordings.current.clear();
+
+    await start(targets.map(t => t.id), async (id, signal) => {
+      const target = targets.find(t => t.id === id)!;
+      const blob = await recordCanvas(await target.loadHtml(), settings, {
+        signal,
+        onProgress: fraction => setFrameProgress(prev => ({ ...prev, [id]: fraction })),
+      });
+      recordings.current.set(id, blob);
+    }, 1);
+
+    const recorded = targets.filter(t => recordings.current.has(t.id));
+    if (recorded.length === 0) return;
+    try {
+      if (targets.length === 1) {
+        const [target] = recorded;
+        downloadFile(`${target.filename}.${extension}`, recordings.current.get(target.id)!, videoMimeTypes[settings.format]);
+        return;
+      }
+      const files: Record<string, Uint8Array> = {};
+      for (const target of recorded) {
+        files[`${target.filename}.${extension}`] = new Uint8Array(await recordings.current.get(target.id)!.arrayBuffer());
+      }
+      // Video is already compressed, so the archive only stores it
+      downloadFile(`${archiveName}.zip`, zipSync(files, { level: 0 }), "application/zip");
+    } catch (err) {
+      console.error("Error saving recordings:", err);
+      setError(errorMessage(err, "Failed to save the recordings"));
+    }
+  }, [start, targets, settings, extension, archiveName]);
+
+  const resolutions = (Object.keys(RESOLUTIONS) as Resolution[])
+    .filter(r => settings.format !== "gif" || GIF_RESOLUTIONS.includes(r));
+  const frameRates = FRAME_RATES.filter(rate => settings.format !== "gif" || rate <= MAX_GIF_FPS);
+
+  return (
+    <div className="fixed inset-0 z-50 grid place-items-center bg-black/50 p-4">
+      <div className="w-full max-w-2xl max-h-full bg-white rounded-lg shadow-xl overflow-hidden flex flex-col">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <h4 className="font-semibold">
+            Export video{targets.length === 1 ? ` · ${targets[0].label}` : ` · ${targets.length} sections`}
+          </h4>
+          <button onClick={onClose} className="text-gray-600 hover:text-black">✕</button>
+        </div>
+
+        <div className="p-4 space-y-4 text-sm overflow-y-auto">
+          <fieldset disabled={running} className="grid grid-cols-2 gap-3">
+            <label className="flex flex-col gap-1">
+              Format
+              <select
+                value={settings.format}
+                onChange={(e) => setSettings({ ...settings, format: e.target.value as VideoFormat })}
+                className="px-2 py-1 rounded border border-gray-300"
+              >
+                {(Object.keys(videoFormatLabels) as VideoFormat[]).map(format => (
+                  <option key={format} value={format}>{videoFormatLabels[format]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              Duration (seconds)
+              <input
+                type="number"
+                min={MIN_DURATION_SECONDS}
+                max={MAX_DURATION_SECONDS}
+                value={settings.durationSeconds}
+                onChange={(e) => setSettings({ ...settings, durationSeconds: Number(e.target.value) })}
+                className="px-2 py-1 rounded border border-gray-300"
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              Resolution
+              <select
+                value={settings.resolution}
+                onChange={(e) => setSettings({ ...settings, resolution: e.target.value as Resolution })}
+                className="px-2 py-1 rounded border border-gray-300"
+              >
+                {resolutions.map(resolution => (
+                  <option key={resolution} value={resolution}>
+                    {resolution} ({RESOLUTIONS[resolution].width}×{RESOLUTIONS[resolution].height})
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              Frame rate
+              <select
+                value={settings.fps}
+                onChange={(e) => setSettings({ ...settings, fps: Number(e.target.value) })}
+                className="px-2 py-1 rounded border border-gray-300"
+              >
+                {frameRates.map(rate => <option key={rate} value={rate}>{rate} fps</option>)}
+              </select>
+            </label>
+          </fieldset>
+          <p className="text-xs text-gray-500">
+            Recording happens in this tab and takes longer than the video itself. Images and fonts loaded from other sites are left out of the frames.
+          </p>
+
+          {targets.length > 1 && (
+            <ul className="max-h-64 overflow-y-auto divide-y rounded border border-gray-100">
+              {targets.map(target => {
+                const status = statuses[target.id];
+                return (
+                  <li key={target.id} className="flex items-center gap-3 px-3 py-1.5">
+                    <span className="flex-1 truncate">{target.label}</span>
+                    {status === "running" && (
+                      <span className="text-xs text-gray-500">{Math.round((frameProgress[target.id] ?? 0) * 100)}%</span>
+                    )}
+                    {status && (
+                      <span
+                        className={`shrink-0 px-2 py-0.5 rounded text-xs ${batchStatusStyles[status]}`}
+                        title={errors[target.id]}
+                      >
+                        {batchStatusLabels[status]}
+                      </span>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {progress.total > 0 && (
+            <div className="space-y-1">
+              <div className="h-2 w-full rounded bg-gray-100 overflow-hidden">
+                <div
+                  className={`h-full transition-all ${progress.failed > 0 ? "bg-amber-500" : "bg-blue-600"}`}
+                  style={{
+                    width: `${((finished + (runningId ? frameProgress[runningId] ?? 0 : 0)) / progress.total) * 100}%`,
+                  }}
+                />
+              </div>
+              <p className="text-xs text-gray-500">
+                {finished} of {progress.total} recorded{progress.failed > 0 ? `, ${progress.failed} failed` : ""}
+              </p>
+            </div>
+          )}
+
+          {targets.length === 1 && errors[targets[0].id] && (
+            <div className="text-red-600">{errors[targets[0].id]}</div>
+          )}
+          {error && <div className="text-red-600">{error}</div>}
+        </div>
+
+        <div className="flex justify-end gap-2 px-4 py-3 border-t">
+          {running ? (
+            <button onClick={cancel} className="px-4 py-2 rounded border text-red-600 hover:bg-red-50">
+              Cancel
+            </button>
+          ) : (
+            <button
+              onClick={handleStart}
+              disabled={targets.length === 0}
+              className="px-4 py-2 rounded bg-blue-600 text-white font-semibold hover:bg-blue-700 disabled:opacity-50"
+            >
+              {targets.length === 1 ? "Record" : `Record ${targets.length} sections`}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
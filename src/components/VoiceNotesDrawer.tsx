@@ -0,0 +1,150 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import VoiceRecorder from "./VoiceRecorder";
+import { errorMessage } from "../lib/errors";
+import { useDebouncedValue } from "../lib/hooks/useDebouncedValue";
+import { deleteNote, listNotes, updateNote, type Note } from "../lib/supabase/notes";
+
+export default function VoiceNotesDrawer({ onSendToReport, onClose }: {
+  onSendToReport: (note: Note) => void;
+  onClose: () => void;
+}) {
+  const [notes, setNotes] = useState<Note[]>([]);
+  const [query, setQuery] = useState("");
+  const debouncedQuery = useDebouncedValue(query, 300);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [editing, setEditing] = useState<{ id: string; text: string } | null>(null);
+  const [sentIds, setSentIds] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    listNotes(debouncedQuery)
+      .then(result => {
+        if (cancelled) return;
+        setNotes(result);
+        setError("");
+      })
+      .catch(err => {
+        console.error("Error loading notes:", err);
+        if (!cancelled) setError(errorMessage(err, "Failed to load notes"));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedQuery]);
+
+  // A new note is shown even when it doesn't match the search, so it can be found again
+  const handleSaved = (note: Note) => setNotes(prev => [note, ...prev]);
+
+  const handleSaveEdit = async () => {
+    if (!editing || !editing.text.trim()) return;
+    try {
+      const note = await updateNote(editing.id, editing.text.trim());
+      setNotes(prev => prev.map(n => n.id === note.id ? note : n));
+      setEditing(null);
+    } catch (err) {
+      console.error("Error saving note:", err);
+      setError(errorMessage(err, "Failed to save note"));
+    }
+  };
+
+  const handleDelete = async (note: Note) => {
+    if (!confirm("Delete this note? This can't be undone.")) return;
+    try {
+      await deleteNote(note.id);
+      setNotes(prev => prev.filter(n => n.id !== note.id));
+    } catch (err) {
+      console.error("Error deleting note:", err);
+      setError(errorMessage(err, "Failed to delete note"));
+    }
+  };
+
+  const handleSend = (note: Note) => {
+    onSendToReport(note);
+    setSentIds(prev => new Set(prev).add(note.id));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/40" onClick={onClose}>
+      <div
+        className="h-full w-full max-w-xl bg-white shadow-xl flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <h4 className="font-semibold">Voice notes</h4>
+          <button onClick={onClose} className="text-gray-600 hover:text-black">✕</button>
+        </div>
+
+        <div className="p-4 space-y-3 border-b">
+          <VoiceRecorder onSaved={handleSaved} />
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search notes…"
+            className="w-full px-3 py-2 rounded border border-gray-300 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+
+        <ul className="flex-1 overflow-y-auto">
+          {loading && <li className="p-4 text-sm text-gray-500 animate-pulse">Loading notes…</li>}
+          {error && <li className="p-4 text-sm text-red-600">{error}</li>}
+          {!loading && !error && notes.length === 0 && (
+            <li className="p-4 text-sm text-gray-500">{debouncedQuery.trim() ? "No notes match." : "No notes yet."}</li>
+          )}
+          {notes.map(note => (
+            <li key={note.id} className="px-4 py-3 border-b space-y-2">
+              <div className="text-xs text-gray-500">{format(new Date(note.createdAt), "MMM d, HH:mm")}</div>
+              {editing?.id === note.id ? (
+                <textarea
+                  value={editing.text}
+                  onChange={(e) => setEditing({ id: note.id, text: e.target.value })}
+                  className="w-full h-28 p-2 rounded border border-gray-300 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              ) : (
+                <p className="whitespace-pre-wrap text-sm text-gray-800">{note.text}</p>
+              )}
+              <div className="flex items-center gap-3 text-sm">
+                {editing?.id === note.id ? (
+                  <>
+                    <button
+                      onClick={handleSaveEdit}
+                      disabled={!editing.text.trim()}
+                      className="text-blue-600 hover:underline disabled:opacity-50"
+                    >
+                      Save
+                    </button>
+                    <button onClick={() => setEditing(null)} className="text-gray-600 hover:underline">Cancel</button>
+                  </>
+                ) : (
+                  <>
+                    <button
+                      onClick={() => handleSend(note)}
+                      className="text-blue-600 hover:underline"
+                    >
+                      {sentIds.has(note.id) ? "Sent ✓" : "Send to report"}
+                    </button>
+                    <button
+                      onClick={() => setEditing({ id: note.id, text: note.text })}
+                      className="text-gray-600 hover:underline"
+                    >
+                      Edit
+                    </button>
+                    <button onClick={() => handleDelete(note)} className="text-red-600 hover:underline">Delete</button>
+                  </>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
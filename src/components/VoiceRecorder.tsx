@@ -1,37 +1,55 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { useDeepgram } from '../lib/contexts/DeepgramContext';
-import { supabase } from '../lib/supabase/supabaseClient';
+import { useEffect, useRef, useState } from 'react';
+import { SOCKET_STATES, useDeepgram } from '../lib/contexts/DeepgramContext';
+import { errorMessage } from '../lib/errors';
+import { createNote, type Note } from '../lib/supabase/notes';
 import { motion } from 'framer-motion';
 
-export default function VoiceRecorder() {
+// Records a voice note for the signed-in user and saves it when recording stops
+export default function VoiceRecorder({ onSaved }: { onSaved?: (note: Note) => void }) {
   const [isRecording, setIsRecording] = useState(false);
-  const { connectToDeepgram, disconnectFromDeepgram, connectionState, realtimeTranscript } = useDeepgram();
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const { connectToDeepgram, disconnectFromDeepgram, connectionState, realtimeTranscript, interimTranscript, error } =
+    useDeepgram();
+  // The session is shared with dictation; only one of them can use it at a time
+  const busy = !isRecording && connectionState !== SOCKET_STATES.closed;
+  const unmountRef = useRef<() => void>(() => {});
 
   const handleStartRecording = async () => {
-    await connectToDeepgram();
-    setIsRecording(true);
+    setSaveError(null);
+    // A refused session or microphone leaves the error from the context to show
+    if (await connectToDeepgram()) setIsRecording(true);
   };
 
   const handleStopRecording = async () => {
-    disconnectFromDeepgram();
+    // Read from the session itself: this render's transcript misses what arrived since
+    const transcript = disconnectFromDeepgram();
     setIsRecording(false);
-    
-    // Save the note to Supabase
-    if (realtimeTranscript) {
-      await supabase.from('notes').insert({
-        text: realtimeTranscript,
-        timestamp: new Date().toISOString(),
-      });
+
+    if (!transcript) return;
+    try {
+      onSaved?.(await createNote(transcript));
+    } catch (err) {
+      console.error('Error saving note:', err);
+      setSaveError(errorMessage(err, 'Failed to save note'));
     }
   };
 
+  // Closing the notes panel mid-recording stops it, and what was said is still saved
+  unmountRef.current = () => {
+    if (!isRecording) return;
+    const transcript = disconnectFromDeepgram();
+    if (transcript) createNote(transcript).catch((err) => console.error('Error saving note:', err));
+  };
+  useEffect(() => () => unmountRef.current(), []);
+
   return (
     <div className="w-full max-w-md">
       <button
         onClick={isRecording ? handleStopRecording : handleStartRecording}
-        className={`w-full py-2 px-4 rounded-full ${
+        disabled={busy}
+        className={`w-full py-2 px-4 rounded-full disabled:opacity-50 ${
           isRecording ? 'bg-red-500 hover:bg-red-600' : 'bg-blue-500 hover:bg-blue-600'
         } text-white font-bold`}
       >
@@ -50,9 +68,12 @@ export default function VoiceRecorder() {
             }}
             className="w-8 h-8 bg-blue-500 rounded-full mx-auto mb-4"
           />
-          <p className="text-sm text-gray-600">{realtimeTranscript}</p>
+          <p className="text-sm text-gray-600">
+            {realtimeTranscript} <span className="italic text-gray-400">{interimTranscript}</span>
+          </p>
         </div>
       )}
+      {(saveError || error) && <p className="mt-2 text-sm text-red-600">{saveError || error}</p>}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,44 @@
+import { readDataStream } from "ai";
+import type { LlmOptions } from "../llm/options";
+import { authHeaders } from "../supabase/authHeaders";
+
+export type ChatMessage = {
+  role: "user" | "assistant";
+  content: string;
+};
+
+// Posts a conversation to /api/llm/chat and reads the AI SDK data stream it returns.
+// Text parts are passed to `onDelta` as they arrive; an error part rejects.
+// Resolves to the full reply.
+export async function streamChat(
+  { messages, system, options }: { messages: ChatMessage[]; system?: string; options?: LlmOptions },
+  onDelta?: (delta: string, text: string) => void,
+  signal?: AbortSignal
+): Promise<string> {
+  const response = await fetch("/api/llm/chat", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...(await authHeaders()) },
+    body: JSON.stringify({ messages, system, ...options }),
+    signal,
+  });
+
+  if (!response.ok) {
+    const result = await response.json().catch(() => ({}));
+    throw new Error(result.error || "Failed to process request");
+  }
+
+  const reader = response.body?.getReader();
+  if (!reader) throw new Error("No response body");
+
+  let text = "";
+  for await (const part of readDataStream(reader, { isAborted: () => signal?.aborted ?? false })) {
+    if (part.type === "text") {
+      text += part.value;
+      onDelta?.(part.value, text);
+    } else if (part.type === "error") {
+      throw new Error(part.value);
+    }
+  }
+
+  return text;
+}
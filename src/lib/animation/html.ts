@@ -0,0 +1,46 @@
+const htmlEscapes: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+// Report text is interpolated into template HTML, so it must never be read as markup.
+export const escapeHtml = (text: string) => text.replace(/[&<>"']/g, char => htmlEscapes[char]);
+
+export const clip = (text: string, length: number) =>
+  text.length > length ? `${text.substring(0, length).trimEnd()}...` : text;
+
+// Shared document shell for the built-in templates. `title` is escaped here; `body`,
+// `css` and `script` are template-authored and must escape their own report text.
+export function animationPage({ title, background, css, body, script = "" }: {
+  title: string;
+  background: string;
+  css: string;
+  body: string;
+  script?: string;
+}): string {
+  return `<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>${escapeHtml(title)}</title>
+    <style>
+      * { box-sizing: border-box; }
+      html, body { margin: 0; height: 100%; background: ${background}; font-family: system-ui, -apple-system, sans-serif; overflow: hidden; }
+      .title { font-size: 2.2rem; font-weight: bold; margin: 0 0 1.5rem; text-align: center; text-shadow: 2px 2px 4px rgba(0,0,0,0.3); }
+      @keyframes fadeIn { from { opacity: 0; } to { opacity: 1; } }
+      @keyframes slideUp { from { opacity: 0; transform: translateY(30px); } to { opacity: 1; transform: translateY(0); } }
+      @keyframes slideRight { from { opacity: 0; transform: translateX(-30px); } to { opacity: 1; transform: translateX(0); } }
+      @keyframes grow { from { transform: scaleX(0); } to { transform: scaleX(1); } }
+${css}
+    </style>
+  </head>
+  <body>
+${body}
+${script ? `    <script>\n${script}\n    </script>` : ""}
+  </body>
+</html>`;
+}
@@ -0,0 +1,29 @@
+import "./templates";
+import type { Section } from "../markdown/sections";
+import type { ClassifierRules } from "../classifier/rules";
+import { getTemplate, pickTemplate, type AnimationTemplate } from "./registry";
+import { buildSectionData } from "./sectionData";
+
+export {
+  FALLBACK_TEMPLATE_ID,
+  getTemplate,
+  getTemplates,
+  pickTemplate,
+  registerTemplate,
+  scoreTemplate,
+  type AnimationTemplate,
+} from "./registry";
+export { buildSectionData, type SectionData } from "./sectionData";
+export { animationPage, clip, escapeHtml } from "./html";
+
+// The template a section uses: its chosen one if still registered, otherwise the best fit
+export function resolveTemplate(section: Section, rules?: ClassifierRules): AnimationTemplate {
+  const chosen = section.templateId ? getTemplate(section.templateId) : undefined;
+  return chosen ?? pickTemplate(buildSectionData(section, rules));
+}
+
+export function renderAnimation(section: Section, rules?: ClassifierRules): string {
+  const data = buildSectionData(section, rules);
+  const chosen = section.templateId ? getTemplate(section.templateId) : undefined;
+  return (chosen ?? pickTemplate(data)).render(data);
+}
@@ -0,0 +1,49 @@
+import type { ContentCategory } from "../classifier/rules";
+import type { SectionData } from "./sectionData";
+
+export type AnimationTemplate = {
+  id: string;
+  name: string;
+  description: string; // what kind of content the template is made for
+  categories?: ContentCategory[]; // content categories the template suits (see lib/classifier)
+  // How well the section's content suits the template: 0 = not at all, 1 = made for it
+  fit: (data: SectionData) => number;
+  render: (data: SectionData) => string;
+};
+
+// Added to a template's fit when the section's category is one it suits, scaled by
+// the classifier's confidence
+const CATEGORY_BONUS = 0.4;
+
+// Used when no other template fits better; must always be registered
+export const FALLBACK_TEMPLATE_ID = "insights";
+
+const templates = new Map<string, AnimationTemplate>();
+
+// Adds a template to the picker. Registering an existing ID replaces that template.
+export function registerTemplate(template: AnimationTemplate): void {
+  templates.set(template.id, template);
+}
+
+export function getTemplates(): AnimationTemplate[] {
+  return Array.from(templates.values());
+}
+
+export function getTemplate(id: string): AnimationTemplate | undefined {
+  return templates.get(id);
+}
+
+export function scoreTemplate(template: AnimationTemplate, data: SectionData): number {
+  const { category, confidence } = data.classification;
+  const bonus = template.categories?.includes(category) ? CATEGORY_BONUS * confidence : 0;
+  return template.fit(data) + bonus;
+}
+
+// The best-fitting template for the section, or the fallback when nothing scores higher
+export function pickTemplate(data: SectionData): AnimationTemplate {
+  const fallback = templates.get(FALLBACK_TEMPLATE_ID)!;
+  return getTemplates().reduce(
+    (best, template) => (scoreTemplate(template, data) > scoreTemplate(best, data) ? template : best),
+    fallback
+  );
+}
@@ -0,0 +1,14 @@
+import type { Section } from "../markdown/sections";
+import { extractSectionContent, type SectionContent } from "../markdown/content";
+import { classifyContent, type Classification } from "../classifier/classify";
+import { DEFAULT_CLASSIFIER_RULES, type ClassifierRules } from "../classifier/rules";
+
+// What animation templates render from: the section's content plus its category
+export type SectionData = SectionContent & {
+  classification: Classification;
+};
+
+export function buildSectionData(section: Section, rules: ClassifierRules = DEFAULT_CLASSIFIER_RULES): SectionData {
+  const content = extractSectionContent(section);
+  return { ...content, classification: classifyContent(content, rules) };
+}
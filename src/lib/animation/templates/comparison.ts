@@ -0,0 +1,70 @@
+import type { AnimationTemplate } from "../registry";
+import type { SectionData } from "../sectionData";
+import { animationPage, clip, escapeHtml } from "../html";
+
+const versus = /\b(vs\.?|versus|compared (?:to|with))\b/i;
+
+type Side = { title: string; points: string[] };
+
+// Two sides from the first two value columns of a table, or from "A vs B" in the heading
+// with the list items split between them.
+function sides(data: SectionData): [Side, Side] {
+  const table = data.tables.find(t => t.header.length >= 3);
+  if (table) {
+    const column = (index: number): Side => ({
+      title: table.header[index],
+      points: table.rows.map(row => `${row[0]}: ${row[index] ?? ""}`),
+    });
+    return [column(1), column(2)];
+  }
+
+  const [left = "Option A", right = "Option B"] = data.heading.split(versus).filter((_, i) => i % 2 === 0).map(s => s.trim());
+  const points = data.listItems.length >= 2 ? data.listItems : data.sentences;
+  const half = Math.ceil(points.length / 2);
+  return [
+    { title: left, points: points.slice(0, half) },
+    { title: right, points: points.slice(half) },
+  ];
+}
+
+export const comparisonTemplate: AnimationTemplate = {
+  id: "comparison",
+  name: "Comparison split-screen",
+  description: "Two options side by side, sliding in from opposite edges.",
+  categories: ["comparison"],
+  fit: (data) => {
+    if (data.tables.some(t => t.header.length >= 3 && t.rows.length >= 2)) return 0.8;
+    return versus.test(data.heading) ? 0.7 : 0;
+  },
+  render: (data) => {
+    const [left, right] = sides(data);
+    const column = (side: Side, className: string) => `
+        <div class="side ${className}">
+          <h2>${escapeHtml(side.title)}</h2>
+          <ul>${side.points.slice(0, 5).map((p, i) => `<li style="animation-delay: ${0.8 + i * 0.3}s">${escapeHtml(clip(p, 80))}</li>`).join("")}</ul>
+        </div>`;
+
+    return animationPage({
+      title: data.heading,
+      background: "#0f172a",
+      css: `
+      .container { display: flex; flex-direction: column; height: 100vh; padding: 30px; color: white; }
+      .split { flex: 1; display: grid; grid-template-columns: 1fr auto 1fr; gap: 20px; align-items: stretch; }
+      .side { border-radius: 16px; padding: 20px; }
+      .left { background: linear-gradient(160deg, #0ea5e9, #1e3a8a); animation: slideRight 0.8s ease-out both; }
+      .right { background: linear-gradient(200deg, #f97316, #9a3412); animation: slideLeft 0.8s ease-out both; }
+      .vs { align-self: center; font-weight: 900; font-size: 1.8rem; opacity: 0; animation: fadeIn 0.5s 0.6s forwards; }
+      .side h2 { margin-top: 0; }
+      .side ul { padding-left: 1.1rem; }
+      .side li { margin: 0.6rem 0; opacity: 0; animation: fadeIn 0.5s ease-out forwards; }
+      @keyframes slideLeft { from { opacity: 0; transform: translateX(30px); } to { opacity: 1; transform: translateX(0); } }`,
+      body: `
+    <div class="container">
+      <h1 class="title">${escapeHtml(data.heading)}</h1>
+      <div class="split">${column(left, "left")}
+        <div class="vs">VS</div>${column(right, "right")}
+      </div>
+    </div>`,
+    });
+  },
+};
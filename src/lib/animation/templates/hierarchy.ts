@@ -0,0 +1,60 @@
+import type { AnimationTemplate } from "../registry";
+import type { SectionData } from "../sectionData";
+import { animationPage, clip, escapeHtml } from "../html";
+
+type TreeNode = { label: string; children: TreeNode[] };
+
+// Folded subheadings become branches; without them, list items hang off the root
+function buildTree(data: SectionData): TreeNode {
+  const root: TreeNode = { label: data.heading, children: [] };
+  if (data.subheadings.length === 0) {
+    root.children = data.listItems.slice(0, 6).map(item => ({ label: item, children: [] }));
+    return root;
+  }
+
+  const stack: { depth: number; node: TreeNode }[] = [{ depth: 0, node: root }];
+  for (const heading of data.subheadings) {
+    while (stack.length > 1 && stack[stack.length - 1].depth >= heading.depth) stack.pop();
+    const node = { label: heading.text, children: [] };
+    stack[stack.length - 1].node.children.push(node);
+    stack.push({ depth: heading.depth, node });
+  }
+  return root;
+}
+
+function renderNode(node: TreeNode, level: number, index: { value: number }): string {
+  const delay = (index.value++ * 0.25).toFixed(2);
+  const children = node.children.length
+    ? `<ul>${node.children.slice(0, 6).map(child => `<li>${renderNode(child, level + 1, index)}</li>`).join("")}</ul>`
+    : "";
+  return `<div class="node level-${Math.min(level, 2)}" style="animation-delay: ${delay}s">${escapeHtml(clip(node.label, 40))}</div>${children}`;
+}
+
+export const hierarchyTemplate: AnimationTemplate = {
+  id: "hierarchy",
+  name: "Hierarchy tree",
+  description: "A top-down tree of the section's subsections or grouped items, growing level by level.",
+  categories: ["hierarchy"],
+  fit: (data) => (data.subheadings.length >= 2 ? 0.75 : data.listItems.length >= 3 ? 0.2 : 0),
+  render: (data) => animationPage({
+    title: data.heading,
+    background: "linear-gradient(180deg, #f8fafc 0%, #e2e8f0 100%)",
+    css: `
+      .container { display: flex; justify-content: center; align-items: center; height: 100vh; padding: 30px; }
+      .tree ul { display: flex; justify-content: center; padding-top: 24px; position: relative; margin: 0; padding-left: 0; }
+      .tree li { list-style: none; position: relative; padding: 24px 8px 0; display: flex; flex-direction: column; align-items: center; }
+      .tree li::before { content: ''; position: absolute; top: 0; left: 50%; height: 24px; border-left: 2px solid #94a3b8; }
+      .tree li::after { content: ''; position: absolute; top: 0; left: 0; right: 0; border-top: 2px solid #94a3b8; }
+      .tree li:first-child::after { left: 50%; }
+      .tree li:last-child::after { right: 50%; }
+      .tree li:only-child::after { display: none; }
+      .node { padding: 8px 14px; border-radius: 10px; font-size: 0.9rem; text-align: center; max-width: 180px; opacity: 0; animation: slideUp 0.5s ease-out forwards; box-shadow: 0 4px 12px rgba(15,23,42,0.12); }
+      .level-0 { background: #1e293b; color: white; font-size: 1.2rem; font-weight: bold; }
+      .level-1 { background: #3b82f6; color: white; }
+      .level-2 { background: white; color: #1e293b; border: 1px solid #cbd5e1; }`,
+    body: `
+    <div class="container">
+      <div class="tree">${renderNode(buildTree(data), 0, { value: 0 })}</div>
+    </div>`,
+  }),
+};
@@ -0,0 +1,20 @@
+import { registerTemplate } from "../registry";
+import { comparisonTemplate } from "./comparison";
+import { hierarchyTemplate } from "./hierarchy";
+import { insightsTemplate } from "./insights";
+import { processTemplate } from "./process";
+import { quoteTemplate } from "./quote";
+import { statsTemplate } from "./stats";
+import { timelineTemplate } from "./timeline";
+
+export const builtInTemplates = [
+  insightsTemplate,
+  processTemplate,
+  timelineTemplate,
+  comparisonTemplate,
+  statsTemplate,
+  quoteTemplate,
+  hierarchyTemplate,
+];
+
+builtInTemplates.forEach(registerTemplate);
@@ -0,0 +1,66 @@
+import type { AnimationTemplate } from "../registry";
+import type { ContentCategory } from "../../classifier/rules";
+import { animationPage, clip, escapeHtml } from "../html";
+
+// Gradient per content category
+const themes: Partial<Record<ContentCategory, { background: string; card: string }>> = {
+  process: { background: "linear-gradient(135deg, #4facfe 0%, #00f2fe 100%)", card: "rgba(79, 172, 254, 0.2)" },
+  architecture: { background: "linear-gradient(135deg, #fa709a 0%, #fee140 100%)", card: "rgba(250, 112, 154, 0.2)" },
+  optimization: { background: "linear-gradient(135deg, #a8edea 0%, #fed6e3 100%)", card: "rgba(168, 237, 234, 0.2)" },
+  analysis: { background: "linear-gradient(135deg, #ffecd2 0%, #fcb69f 100%)", card: "rgba(255, 236, 210, 0.2)" },
+};
+
+const defaultTheme = { background: "linear-gradient(135deg, #667eea 0%, #764ba2 100%)", card: "rgba(255,255,255,0.1)" };
+
+// The original generator: floating title and a card with the first three key points
+export const insightsTemplate: AnimationTemplate = {
+  id: "insights",
+  name: "Key insights",
+  description: "Floating title with a card of key points. Works for any section.",
+  fit: () => 0.1,
+  render: (data) => {
+    const theme = themes[data.classification.category] ?? defaultTheme;
+    const keyPoints = data.sentences.filter(s => s.length > 20).slice(0, 3).map(s => clip(s, 50));
+
+    return animationPage({
+      title: data.heading,
+      background: theme.background,
+      css: `
+      .container { display: flex; flex-direction: column; align-items: center; justify-content: center; height: 100vh; color: white; padding: 20px; }
+      .card { background: ${theme.card}; backdrop-filter: blur(10px); border-radius: 20px; padding: 2rem; margin: 1rem; border: 1px solid rgba(255,255,255,0.3); box-shadow: 0 8px 32px rgba(0,0,0,0.1); transition: transform 0.2s ease-out; }
+      .key-points { list-style: none; padding: 0; }
+      .key-points li { margin: 1rem 0; padding: 0.5rem; background: rgba(255,255,255,0.1); border-radius: 10px; border-left: 4px solid rgba(255,255,255,0.5); }
+      .floating { animation: float 4s ease-in-out infinite; }
+      .fade-in { animation: fadeIn 2s ease-out; }
+      .slide-up { animation: slideUp 1.5s ease-out; }
+      @keyframes float { 0%, 100% { transform: translateY(0px); } 50% { transform: translateY(-15px); } }`,
+      body: `
+    <div class="container">
+      <h1 class="title floating">${escapeHtml(data.heading)}</h1>
+      <div class="card fade-in">
+        <h3 style="margin-top: 0; color: rgba(255,255,255,0.9);">Key Insights</h3>
+        <ul class="key-points">
+          ${keyPoints.map(point => `<li class="slide-up">${escapeHtml(point)}</li>`).join("")}
+        </ul>
+      </div>
+    </div>`,
+      script: `
+      // Smooth tilt that follows the pointer
+      document.addEventListener('mousemove', (e) => {
+        document.querySelectorAll('.card').forEach(card => {
+          const rect = card.getBoundingClientRect();
+          const x = e.clientX - rect.left - rect.width / 2;
+          const y = e.clientY - rect.top - rect.height / 2;
+          const rotateX = (y / rect.height - 0.5) * 10;
+          const rotateY = (x / rect.width - 0.5) * -10;
+          card.style.transform = \`perspective(1000px) rotateX(\${rotateX}deg) rotateY(\${rotateY}deg) translateZ(10px)\`;
+        });
+      });
+      document.addEventListener('mouseleave', () => {
+        document.querySelectorAll('.card').forEach(card => {
+          card.style.transform = 'perspective(1000px) rotateX(0deg) rotateY(0deg) translateZ(0px)';
+        });
+      });`,
+    });
+  },
+};
@@ -0,0 +1,46 @@
+import type { AnimationTemplate } from "../registry";
+import type { SectionData } from "../sectionData";
+import { animationPage, clip, escapeHtml } from "../html";
+
+const stepWords = /^(first|firstly|initially|then|next|after that|afterwards|finally|lastly|step \d+)\b/i;
+
+function steps(data: SectionData): string[] {
+  if (data.orderedItems.length >= 2) return data.orderedItems;
+  const sequenced = data.sentences.filter(s => stepWords.test(s));
+  return sequenced.length >= 2 ? sequenced : data.listItems;
+}
+
+export const processTemplate: AnimationTemplate = {
+  id: "process",
+  name: "Step-by-step process",
+  description: "Numbered steps revealed one after another along a connecting line.",
+  categories: ["process"],
+  fit: (data) => {
+    if (data.orderedItems.length >= 3) return 0.9;
+    if (data.sentences.filter(s => stepWords.test(s)).length >= 2) return 0.6;
+    return data.orderedItems.length === 2 ? 0.4 : 0;
+  },
+  render: (data) => {
+    const items = steps(data).slice(0, 6);
+
+    return animationPage({
+      title: data.heading,
+      background: "linear-gradient(135deg, #0f2027 0%, #2c5364 100%)",
+      css: `
+      .container { display: flex; flex-direction: column; justify-content: center; height: 100vh; padding: 40px; color: white; }
+      .steps { position: relative; display: grid; grid-template-columns: repeat(${Math.max(items.length, 1)}, 1fr); gap: 16px; }
+      .line { position: absolute; top: 24px; left: 8%; right: 8%; height: 4px; background: #38bdf8; transform-origin: left; animation: grow ${items.length * 0.6}s ease-out both; }
+      .step { position: relative; text-align: center; opacity: 0; animation: slideUp 0.6s ease-out forwards; }
+      .num { width: 48px; height: 48px; margin: 0 auto 12px; border-radius: 50%; background: #38bdf8; color: #0f2027; display: grid; place-items: center; font-weight: bold; font-size: 1.2rem; box-shadow: 0 0 0 6px rgba(56,189,248,0.25); }
+      .text { font-size: 0.95rem; line-height: 1.4; background: rgba(255,255,255,0.08); border-radius: 10px; padding: 10px; }`,
+      body: `
+    <div class="container">
+      <h1 class="title">${escapeHtml(data.heading)}</h1>
+      <div class="steps">
+        <div class="line"></div>
+        ${items.map((item, i) => `<div class="step" style="animation-delay: ${0.3 + i * 0.6}s"><div class="num">${i + 1}</div><div class="text">${escapeHtml(clip(item, 90))}</div></div>`).join("\n        ")}
+      </div>
+    </div>`,
+    });
+  },
+};
@@ -0,0 +1,35 @@
+import type { AnimationTemplate } from "../registry";
+import { animationPage, clip, escapeHtml } from "../html";
+
+export const quoteTemplate: AnimationTemplate = {
+  id: "quote",
+  name: "Quote highlight",
+  description: "A pull quote typed out word by word, for sections built around a citation.",
+  fit: (data) => {
+    if (data.quotes.length === 0) return 0;
+    // A quote that makes up most of the section is the point of the section
+    const quoteLength = data.quotes.join(" ").length;
+    return quoteLength > data.sentences.join(" ").length / 2 ? 0.85 : 0.5;
+  },
+  render: (data) => {
+    const quote = clip(data.quotes[0] ?? data.sentences[0] ?? data.heading, 280);
+    const words = quote.split(/\s+/);
+
+    return animationPage({
+      title: data.heading,
+      background: "radial-gradient(circle at 30% 30%, #44403c 0%, #1c1917 70%)",
+      css: `
+      .container { display: flex; flex-direction: column; align-items: center; justify-content: center; height: 100vh; padding: 60px; color: #fafaf9; }
+      .mark { font-family: Georgia, serif; font-size: 8rem; line-height: 0.5; color: #f59e0b; opacity: 0; animation: fadeIn 0.8s ease-out forwards; }
+      blockquote { margin: 0; font-family: Georgia, serif; font-size: 1.8rem; line-height: 1.5; text-align: center; max-width: 900px; }
+      blockquote span { opacity: 0; animation: fadeIn 0.4s ease-out forwards; }
+      .source { margin-top: 1.5rem; color: #d6d3d1; letter-spacing: 0.1em; text-transform: uppercase; font-size: 0.8rem; opacity: 0; animation: fadeIn 0.8s ease-out forwards; animation-delay: ${(0.6 + words.length * 0.08).toFixed(2)}s; }`,
+      body: `
+    <div class="container">
+      <div class="mark">&ldquo;</div>
+      <blockquote>${words.map((word, i) => `<span style="animation-delay: ${(0.6 + i * 0.08).toFixed(2)}s">${escapeHtml(word)} </span>`).join("")}</blockquote>
+      <div class="source">${escapeHtml(data.heading)}</div>
+    </div>`,
+    });
+  },
+};
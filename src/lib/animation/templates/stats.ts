@@ -0,0 +1,50 @@
+import type { AnimationTemplate } from "../registry";
+import { animationPage, clip, escapeHtml } from "../html";
+
+export const statsTemplate: AnimationTemplate = {
+  id: "stats",
+  name: "Key statistic counters",
+  description: "The section's headline figures counting up from zero.",
+  categories: ["statistics"],
+  fit: (data) => (data.stats.length >= 2 ? 0.8 : data.stats.length === 1 ? 0.4 : 0),
+  render: (data) => {
+    const stats = data.stats.slice(0, 4);
+
+    return animationPage({
+      title: data.heading,
+      background: "linear-gradient(135deg, #064e3b 0%, #065f46 50%, #0f766e 100%)",
+      css: `
+      .container { display: flex; flex-direction: column; justify-content: center; height: 100vh; padding: 40px; color: white; }
+      .stats { display: grid; grid-template-columns: repeat(${Math.max(stats.length, 1)}, 1fr); gap: 20px; }
+      .stat { text-align: center; background: rgba(255,255,255,0.08); border-radius: 16px; padding: 24px 12px; opacity: 0; animation: slideUp 0.7s ease-out forwards; }
+      .figure { font-size: 3rem; font-weight: 800; color: #6ee7b7; font-variant-numeric: tabular-nums; }
+      .label { font-size: 0.85rem; opacity: 0.85; margin-top: 8px; }`,
+      body: `
+    <div class="container">
+      <h1 class="title">${escapeHtml(data.heading)}</h1>
+      <div class="stats">
+        ${stats.map((stat, i) => `<div class="stat" style="animation-delay: ${i * 0.3}s"><div class="figure" data-display="${escapeHtml(stat.display)}">${escapeHtml(stat.display)}</div><div class="label">${escapeHtml(clip(stat.label, 90))}</div></div>`).join("\n        ")}
+      </div>
+    </div>`,
+      script: `
+      // Count each figure up from zero, keeping its prefix, decimals and unit as written
+      document.querySelectorAll('.figure').forEach((el, i) => {
+        const display = el.dataset.display;
+        const match = /^(\\D*?)([\\d,]+(?:\\.\\d+)?)(.*)$/.exec(display);
+        if (!match) return;
+        const [, prefix, number, suffix] = match;
+        const target = Number(number.replace(/,/g, ''));
+        const decimals = (number.split('.')[1] || '').length;
+        const start = performance.now() + i * 300;
+        const duration = 1600;
+        const tick = (now) => {
+          const t = Math.min(1, Math.max(0, (now - start) / duration));
+          const eased = 1 - Math.pow(1 - t, 3);
+          el.textContent = prefix + (target * eased).toLocaleString(undefined, { minimumFractionDigits: decimals, maximumFractionDigits: decimals }) + suffix;
+          if (t < 1) requestAnimationFrame(tick);
+        };
+        requestAnimationFrame(tick);
+      });`,
+    });
+  },
+};
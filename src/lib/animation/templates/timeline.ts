@@ -0,0 +1,34 @@
+import type { AnimationTemplate } from "../registry";
+import { animationPage, clip, escapeHtml } from "../html";
+
+export const timelineTemplate: AnimationTemplate = {
+  id: "timeline",
+  name: "Timeline",
+  description: "Dated events placed along a horizontal axis, appearing in order.",
+  categories: ["timeline"],
+  fit: (data) => (data.events.length >= 3 ? 0.9 : data.events.length === 2 ? 0.5 : 0),
+  render: (data) => {
+    const events = data.events.slice(0, 7);
+
+    return animationPage({
+      title: data.heading,
+      background: "linear-gradient(135deg, #1e1b4b 0%, #4c1d95 100%)",
+      css: `
+      .container { display: flex; flex-direction: column; justify-content: center; height: 100vh; padding: 40px; color: white; }
+      .axis { position: relative; display: flex; justify-content: space-between; margin-top: 40px; }
+      .axis::before { content: ''; position: absolute; top: 50%; left: 0; right: 0; height: 3px; background: rgba(255,255,255,0.5); transform-origin: left; animation: grow 1.2s ease-out both; }
+      .event { position: relative; flex: 1; display: flex; flex-direction: column; align-items: center; opacity: 0; animation: fadeIn 0.6s ease-out forwards; }
+      .event:nth-child(odd) { flex-direction: column-reverse; }
+      .dot { width: 16px; height: 16px; border-radius: 50%; background: #f472b6; border: 3px solid white; margin: 10px 0; z-index: 1; }
+      .when { font-weight: bold; color: #f9a8d4; }
+      .what { font-size: 0.85rem; text-align: center; max-width: 150px; min-height: 3.6em; }`,
+      body: `
+    <div class="container">
+      <h1 class="title">${escapeHtml(data.heading)}</h1>
+      <div class="axis">
+        ${events.map((event, i) => `<div class="event" style="animation-delay: ${1 + i * 0.5}s"><div class="when">${escapeHtml(event.when)}</div><div class="dot"></div><div class="what">${escapeHtml(clip(event.what, 70))}</div></div>`).join("\n        ")}
+      </div>
+    </div>`,
+    });
+  },
+};
@@ -0,0 +1,165 @@
+// Reads an audio file's length from its container headers, without decoding it. Each
+// reader returns null when it can't find the length; WebM from MediaRecorder has no
+// declared duration, so its length is read from the timecodes of its last cluster.
+
+const ascii = (bytes: Buffer, at: number, text: string) => bytes.toString("latin1", at, at + text.length) === text;
+
+// RIFF/WAVE: the data chunk's size over the byte rate from the fmt chunk
+function wavDuration(bytes: Buffer): number | null {
+  if (!ascii(bytes, 0, "RIFF") || !ascii(bytes, 8, "WAVE")) return null;
+  let byteRate = 0;
+  for (let at = 12; at + 8 <= bytes.length; ) {
+    const id = bytes.toString("latin1", at, at + 4);
+    const size = bytes.readUInt32LE(at + 4);
+    if (id === "fmt " && at + 20 <= bytes.length) byteRate = bytes.readUInt32LE(at + 16);
+    if (id === "data") {
+      if (!byteRate) return null;
+      // Streamed WAV leaves the size unset; the data then runs to the end of the file
+      const dataSize = size === 0 || size === 0xffffffff ? bytes.length - at - 8 : Math.min(size, bytes.length - at - 8);
+      return dataSize / byteRate;
+    }
+    at += 8 + size + (size % 2);
+  }
+  return null;
+}
+
+// Ogg: the last page's granule position, in samples of the first stream (Opus or Vorbis)
+function oggDuration(bytes: Buffer): number | null {
+  if (!ascii(bytes, 0, "OggS") || bytes.length < 28) return null;
+  const packet = 27 + bytes[26];
+  let rate = 0;
+  let preSkip = 0;
+  if (ascii(bytes, packet, "OpusHead") && packet + 12 <= bytes.length) {
+    rate = 48000; // Opus granules always count at 48 kHz
+    preSkip = bytes.readUInt16LE(packet + 10);
+  } else if (ascii(bytes, packet, "\x01vorbis") && packet + 16 <= bytes.length) {
+    rate = bytes.readUInt32LE(packet + 12);
+  }
+  const last = bytes.lastIndexOf("OggS", undefined, "latin1");
+  if (!rate || last < 0 || last + 14 > bytes.length) return null;
+  const granule = Number(bytes.readBigInt64LE(last + 6));
+  return granule > 0 ? (granule - preSkip) / rate : null;
+}
+
+// MP4/M4A: the movie header's duration in its own timescale
+function mp4Duration(bytes: Buffer): number | null {
+  if (!ascii(bytes, 4, "ftyp")) return null;
+  const box = bytes.indexOf("mvhd", 0, "latin1");
+  if (box < 0 || box + 32 > bytes.length) return null;
+  const version = bytes[box + 4];
+  const timescale = bytes.readUInt32BE(box + (version === 1 ? 24 : 16));
+  const duration = version === 1 ? Number(bytes.readBigUInt64BE(box + 28)) : bytes.readUInt32BE(box + 20);
+  return timescale ? duration / timescale : null;
+}
+
+// EBML variable-length integer at `at` (an element ID or size): its value without the
+// length marker, and how many bytes it takes
+function ebmlNumber(bytes: Buffer, at: number): { value: number; length: number } | null {
+  const first = bytes[at];
+  if (first === undefined || first === 0) return null;
+  const length = Math.clz32(first) - 23;
+  if (at + length > bytes.length) return null;
+  let value = first & (0xff >> length);
+  for (let i = 1; i < length; i++) value = value * 256 + bytes[at + i];
+  return { value, length };
+}
+
+const WEBM_CLUSTER = Buffer.from([0x1f, 0x43, 0xb6, 0x75]);
+const WEBM_TIMECODE = 0xe7;
+const WEBM_SIMPLE_BLOCK = 0x23; // 0xA3 without its length marker
+
+// Where the last cluster's audio ends: its Timecode plus the latest block in it. This is
+// how long a recording straight from MediaRecorder is, since it has no Duration.
+function webmRecordedUnits(bytes: Buffer): number | null {
+  // A match inside the audio itself isn't followed by a Timecode; MediaRecorder writes it first
+  for (let cluster = bytes.lastIndexOf(WEBM_CLUSTER), tries = 0; cluster >= 0 && tries < 8; tries++) {
+    const size = ebmlNumber(bytes, cluster + 4);
+    let at = size ? cluster + 4 + size.length : -1;
+    let timecode: number | null = null;
+    let latest = 0;
+    while (at >= 0 && at < bytes.length) {
+      const id = ebmlNumber(bytes, at);
+      const length = id && ebmlNumber(bytes, at + id.length);
+      if (!id || !length) break;
+      const data = at + id.length + length.length;
+      if (timecode === null) {
+        if (id.length !== 1 || bytes[at] !== WEBM_TIMECODE || length.value < 1 || length.value > 6 || data + length.value > bytes.length) break;
+        timecode = bytes.readUIntBE(data, length.value);
+      } else if (id.length === 1 && id.value === WEBM_SIMPLE_BLOCK) {
+        // Track number, then the block's time relative to the cluster's
+        const track = ebmlNumber(bytes, data);
+        if (track && data + track.length + 2 <= bytes.length) latest = Math.max(latest, bytes.readInt16BE(data + track.length));
+      } else if (id.length === 4 && bytes.subarray(at, at + 4).equals(WEBM_CLUSTER)) {
+        break;
+      }
+      at = data + length.value;
+    }
+    if (timecode !== null) return timecode + latest;
+    cluster = cluster > 0 ? bytes.lastIndexOf(WEBM_CLUSTER, cluster - 1) : -1;
+  }
+  return null;
+}
+
+// WebM/Matroska: the Segment Info's Duration when there is one, otherwise where the
+// last cluster ends, in units of the TimecodeScale (1 ms by default)
+function webmDuration(bytes: Buffer): number | null {
+  if (bytes.readUInt32BE(0) !== 0x1a45dfa3) return null;
+  // Segment Info sits near the start; searching further risks matching inside the audio
+  const head = bytes.subarray(0, 64 * 1024);
+  let scale = 1_000_000; // ns per unit
+  const scaleAt = head.indexOf(Buffer.from([0x2a, 0xd7, 0xb1]));
+  if (scaleAt >= 0 && scaleAt + 4 < head.length) {
+    const length = head[scaleAt + 3] & 0x0f; // a one-byte size: 0x8n means n bytes follow
+    if (head[scaleAt + 3] >> 4 === 0x8 && length >= 1 && length <= 6 && scaleAt + 4 + length <= head.length) {
+      scale = head.readUIntBE(scaleAt + 4, length);
+    }
+  }
+  let units: number | null = null;
+  const durationAt = head.indexOf(Buffer.from([0x44, 0x89]));
+  if (durationAt >= 0) {
+    const size = head[durationAt + 2];
+    if (size === 0x84 && durationAt + 7 <= head.length) units = head.readFloatBE(durationAt + 3);
+    else if (size === 0x88 && durationAt + 11 <= head.length) units = head.readDoubleBE(durationAt + 3);
+  }
+  if (!(units && units > 0)) units = webmRecordedUnits(bytes);
+  return units && units > 0 ? (units * scale) / 1e9 : null;
+}
+
+const mp3Bitrates = {
+  mpeg1: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  mpeg2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+const mp3SampleRates: Record<number, number[]> = { 3: [44100, 48000, 32000], 2: [22050, 24000, 16000], 0: [11025, 12000, 8000] };
+
+// MP3: the frame count from a Xing/Info header when there is one, otherwise the bitrate
+// of the first frame (exact for constant-bitrate files)
+function mp3Duration(bytes: Buffer): number | null {
+  let at = 0;
+  if (ascii(bytes, 0, "ID3") && bytes.length >= 10) {
+    at = 10 + ((bytes[6] & 0x7f) << 21 | (bytes[7] & 0x7f) << 14 | (bytes[8] & 0x7f) << 7 | (bytes[9] & 0x7f));
+  }
+  while (at + 4 <= bytes.length && !(bytes[at] === 0xff && (bytes[at + 1] & 0xe0) === 0xe0)) at++;
+  if (at + 4 > bytes.length) return null;
+
+  const version = (bytes[at + 1] >> 3) & 0x03; // 3: MPEG-1, 2: MPEG-2, 0: MPEG-2.5
+  const layer = (bytes[at + 1] >> 1) & 0x03; // 1: Layer III
+  const sampleRate = mp3SampleRates[version]?.[(bytes[at + 2] >> 2) & 0x03];
+  const bitrate = (version === 3 ? mp3Bitrates.mpeg1 : mp3Bitrates.mpeg2)[bytes[at + 2] >> 4];
+  if (layer !== 1 || !sampleRate || !bitrate) return null;
+  const samplesPerFrame = version === 3 ? 1152 : 576;
+
+  const frame = bytes.subarray(at, at + 200);
+  const xing = Math.max(frame.indexOf("Xing", 0, "latin1"), frame.indexOf("Info", 0, "latin1"));
+  if (xing >= 0 && xing + 12 <= frame.length && frame.readUInt32BE(xing + 4) & 0x1) {
+    return (frame.readUInt32BE(xing + 8) * samplesPerFrame) / sampleRate;
+  }
+  return ((bytes.length - at) * 8) / (bitrate * 1000);
+}
+
+export const audioDurationReaders = {
+  wav: wavDuration,
+  ogg: oggDuration,
+  m4a: mp4Duration,
+  webm: webmDuration,
+  mp3: mp3Duration,
+};
@@ -0,0 +1,202 @@
+import { NextResponse } from "next/server";
+import { audioDurationReaders } from "./duration";
+
+// Server-side only: reads and checks the audio sent to /api/openai/transcribe, either as a
+// multipart form ({ file, language?, prompt?, timestamps? }) or as a raw audio body with
+// those options in the query string. Each request's audio stays in its own buffer.
+
+export type AudioFormat = keyof typeof audioDurationReaders;
+
+export type TimestampGranularity = "segment" | "word";
+
+export type TranscriptionUpload = {
+  audio: Buffer;
+  format: AudioFormat;
+  duration: number | null; // seconds, when the container says
+  language?: string; // ISO-639-1
+  prompt?: string;
+  timestamps: TimestampGranularity;
+};
+
+export const MAX_AUDIO_BYTES = 25 * 1024 * 1024; // OpenAI's upload limit
+export const MAX_AUDIO_SECONDS = 10 * 60;
+// When the length can't be read: MAX_AUDIO_SECONDS at 128 kbps, MediaRecorder's usual
+// bitrate. The length the provider reports is what's metered either way.
+export const MAX_UNTIMED_AUDIO_BYTES = MAX_AUDIO_SECONDS * 16_000;
+export const MIN_AUDIO_SECONDS = 0.1; // anything shorter is refused by the provider
+export const MAX_PROMPT_LENGTH = 1000;
+
+export const audioMimeTypes: Record<AudioFormat, string> = {
+  webm: "audio/webm",
+  ogg: "audio/ogg",
+  mp3: "audio/mpeg",
+  m4a: "audio/mp4",
+  wav: "audio/wav",
+};
+
+const mimeFormats: Record<string, AudioFormat> = {
+  "audio/webm": "webm",
+  "video/webm": "webm",
+  "audio/ogg": "ogg",
+  "audio/opus": "ogg",
+  "application/ogg": "ogg",
+  "audio/mpeg": "mp3",
+  "audio/mp3": "mp3",
+  "audio/mp4": "m4a",
+  "audio/m4a": "m4a",
+  "audio/x-m4a": "m4a",
+  "audio/wav": "wav",
+  "audio/wave": "wav",
+  "audio/x-wav": "wav",
+  "audio/vnd.wave": "wav",
+};
+
+const extensionFormats: Record<string, AudioFormat> = {
+  webm: "webm",
+  ogg: "ogg",
+  oga: "ogg",
+  opus: "ogg",
+  mp3: "mp3",
+  m4a: "m4a",
+  mp4: "m4a",
+  wav: "wav",
+};
+
+export type TranscriptionErrorCode =
+  | "unsupported_media_type"
+  | "invalid_upload"
+  | "missing_file"
+  | "empty_file"
+  | "too_large"
+  | "unsupported_format"
+  | "format_mismatch"
+  | "too_short"
+  | "too_long"
+  | "invalid_language"
+  | "invalid_prompt"
+  | "invalid_timestamps"
+  | "provider_error";
+
+// A request the route refuses, with the status and a code clients can branch on
+export class TranscriptionError extends Error {
+  constructor(message: string, readonly code: TranscriptionErrorCode, readonly status: number) {
+    super(message);
+    this.name = "TranscriptionError";
+  }
+}
+
+export const transcriptionErrorResponse = (error: TranscriptionError) =>
+  NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+
+// The container the bytes actually are, whatever the upload claims
+function sniffFormat(bytes: Buffer): AudioFormat | null {
+  if (bytes.length < 12) return null;
+  if (bytes.toString("latin1", 0, 4) === "RIFF" && bytes.toString("latin1", 8, 12) === "WAVE") return "wav";
+  if (bytes.toString("latin1", 0, 4) === "OggS") return "ogg";
+  if (bytes.toString("latin1", 4, 8) === "ftyp") return "m4a";
+  if (bytes.readUInt32BE(0) === 0x1a45dfa3) return "webm";
+  if (bytes.toString("latin1", 0, 3) === "ID3" || (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0)) return "mp3";
+  return null;
+}
+
+// The declared format, from the MIME type or (for generic types) the file name
+function declaredFormat(mimeType: string, fileName: string): AudioFormat | null {
+  const type = mimeType.split(";")[0].trim().toLowerCase();
+  if (type && type !== "application/octet-stream") return mimeFormats[type] ?? null;
+  return extensionFormats[fileName.split(".").pop()?.toLowerCase() ?? ""] ?? null;
+}
+
+// Reads a raw body, giving up as soon as it passes `limit` bytes
+async function readBody(req: Request, limit: number): Promise<Buffer> {
+  const reader = req.body?.getReader();
+  if (!reader) return Buffer.alloc(0);
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > limit) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+const tooLarge = () =>
+  new TranscriptionError(`Audio files can be at most ${MAX_AUDIO_BYTES / 1024 / 1024} MB.`, "too_large", 413);
+
+function parseOptions(get: (name: string) => unknown): Pick<TranscriptionUpload, "language" | "prompt" | "timestamps"> {
+  const language = typeof get("language") === "string" ? (get("language") as string).trim().toLowerCase() : "";
+  if (language && !/^[a-z]{2}$/.test(language)) {
+    throw new TranscriptionError("`language` must be a two-letter ISO-639-1 code, such as \"en\".", "invalid_language", 400);
+  }
+  const prompt = typeof get("prompt") === "string" ? (get("prompt") as string).trim() : "";
+  if (prompt.length > MAX_PROMPT_LENGTH) {
+    throw new TranscriptionError(`\`prompt\` can be at most ${MAX_PROMPT_LENGTH} characters.`, "invalid_prompt", 400);
+  }
+  const timestamps = get("timestamps") ?? "segment";
+  if (timestamps !== "segment" && timestamps !== "word") {
+    throw new TranscriptionError("`timestamps` must be \"segment\" or \"word\".", "invalid_timestamps", 400);
+  }
+  return { language: language || undefined, prompt: prompt || undefined, timestamps };
+}
+
+// Reads the upload and checks its size, type, contents and length. Throws TranscriptionError.
+export async function readTranscriptionUpload(req: Request): Promise<TranscriptionUpload> {
+  // Form fields and multipart boundaries add a little on top of the audio itself
+  if (Number(req.headers.get("content-length")) > MAX_AUDIO_BYTES + 64 * 1024) throw tooLarge();
+
+  const contentType = req.headers.get("content-type") ?? "";
+  let audio: Buffer;
+  let mimeType: string;
+  let fileName = "";
+  let options: ReturnType<typeof parseOptions>;
+
+  if (contentType.startsWith("multipart/form-data")) {
+    const form = await req.formData();
+    const file = form.get("file");
+    if (!(file instanceof Blob)) {
+      throw new TranscriptionError("Send the audio as a `file` field.", "missing_file", 400);
+    }
+    if (file.size > MAX_AUDIO_BYTES) throw tooLarge();
+    audio = Buffer.from(await file.arrayBuffer());
+    mimeType = file.type;
+    fileName = file instanceof File ? file.name : "";
+    options = parseOptions(name => form.get(name) ?? undefined);
+  } else if (declaredFormat(contentType, "")) {
+    const params = new URL(req.url).searchParams;
+    options = parseOptions(name => params.get(name) ?? undefined);
+    audio = await readBody(req, MAX_AUDIO_BYTES);
+    mimeType = contentType;
+  } else {
+    throw new TranscriptionError("Upload audio as multipart/form-data or as a raw audio body.", "unsupported_media_type", 415);
+  }
+
+  if (audio.length === 0) throw new TranscriptionError("The audio file is empty.", "empty_file", 400);
+
+  const format = declaredFormat(mimeType, fileName);
+  if (!format) {
+    throw new TranscriptionError("Audio must be WebM, Ogg, MP3, M4A or WAV.", "unsupported_format", 415);
+  }
+  const actual = sniffFormat(audio);
+  if (actual !== format) {
+    throw new TranscriptionError(
+      actual ? `The file was sent as ${format} but contains ${actual}.` : `The file isn't valid ${format} audio.`,
+      "format_mismatch",
+      415
+    );
+  }
+
+  const duration = audioDurationReaders[format](audio);
+  if (duration !== null && duration < MIN_AUDIO_SECONDS) {
+    throw new TranscriptionError("The recording is too short to transcribe.", "too_short", 422);
+  }
+  if (duration !== null ? duration > MAX_AUDIO_SECONDS : audio.length > MAX_UNTIMED_AUDIO_BYTES) {
+    throw new TranscriptionError(`Recordings can be at most ${MAX_AUDIO_SECONDS / 60} minutes long.`, "too_long", 422);
+  }
+
+  return { audio, format, duration, ...options };
+}
@@ -0,0 +1,87 @@
+export type BatchStatus = "queued" | "running" | "done" | "failed";
+
+export type RetryOptions = {
+  retries: number; // attempts after the first one
+  baseDelayMs: number; // doubled on every retry, with jitter
+  shouldRetry: (error: unknown) => boolean;
+  retryAfterMs?: (error: unknown) => number | undefined; // how long the server asked to wait, if it did
+};
+
+export const DEFAULT_RETRY: RetryOptions = {
+  retries: 3,
+  baseDelayMs: 1000,
+  shouldRetry: () => true,
+};
+
+export const isAbortError = (error: unknown) => (error as { name?: string })?.name === "AbortError";
+
+function abortError(): Error {
+  return new DOMException("The batch was cancelled", "AbortError");
+}
+
+// Resolves after `ms`, or rejects with an AbortError as soon as the signal fires
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Runs `task` until it succeeds, the retries run out or the error isn't retryable.
+// Each retry waits at least as long as the server asked to. Cancellation is never retried.
+export async function withRetry<T>(
+  task: () => Promise<T>,
+  options: RetryOptions = DEFAULT_RETRY,
+  signal?: AbortSignal
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (isAbortError(error) || signal?.aborted) throw error;
+      if (attempt >= options.retries || !options.shouldRetry(error)) throw error;
+      const delay = options.baseDelayMs * 2 ** attempt;
+      const backoff = delay / 2 + Math.random() * (delay / 2);
+      await sleep(Math.max(backoff, options.retryAfterMs?.(error) ?? 0), signal);
+    }
+  }
+}
+
+// Runs `worker` over the items with at most `concurrency` in flight, reporting each
+// item's status as it changes. A failed item doesn't stop the others; aborting the
+// signal stops starting new items and leaves the unstarted ones queued.
+export async function runQueue<T>(
+  items: T[],
+  worker: (item: T, signal: AbortSignal) => Promise<void>,
+  { concurrency, signal, onStatus }: {
+    concurrency: number;
+    signal: AbortSignal;
+    onStatus: (item: T, status: BatchStatus, error?: unknown) => void;
+  }
+): Promise<void> {
+  items.forEach(item => onStatus(item, "queued"));
+  let next = 0;
+
+  const lane = async () => {
+    while (next < items.length && !signal.aborted) {
+      const item = items[next++];
+      onStatus(item, "running");
+      try {
+        await worker(item, signal);
+        onStatus(item, "done");
+      } catch (error) {
+        onStatus(item, "failed", error);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, lane));
+}
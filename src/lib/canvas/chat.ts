@@ -0,0 +1,61 @@
+import type { ChatMessage } from "../ai/streamChat";
+import type { RevisionKind } from "../supabase/revisions";
+
+export const canvasKindLabels: Record<RevisionKind, string> = {
+  code: "HTML animation",
+  mermaid: "Mermaid diagram",
+  chart: "chart",
+};
+
+const fences: Record<RevisionKind, string> = {
+  code: "html",
+  mermaid: "mermaid",
+  chart: "json",
+};
+
+export const CANVAS_EDIT_SYSTEM_PROMPT = `You edit the visuals attached to sections of research reports: Mermaid diagrams, charts and self-contained HTML/CSS/JS animations shown in a 16:9 sandboxed iframe.
+
+Apply the user's instruction to the current source and change nothing else. Keep the content faithful to the section text. Animations must work offline in a single HTML file. Charts are JSON objects of the form {"type": "bar" | "line" | "pie", "title": string, "labels": string[], "series": [{"name": string, "values": number[]}], "prefix"?: string, "suffix"?: string}, with one value per label in every series. Always reply with the complete source in one code block.`;
+
+// Builds the next user turn of a canvas edit conversation. Every turn carries the
+// current source, so edits made outside the chat (or rejected proposals) are seen.
+export function buildEditMessage({ kind, heading, sectionText, currentSource, instruction, firstTurn }: {
+  kind: RevisionKind;
+  heading: string;
+  sectionText: string;
+  currentSource: string;
+  instruction: string;
+  firstTurn: boolean;
+}): ChatMessage {
+  const label = canvasKindLabels[kind];
+  const fence = fences[kind];
+  const context = firstTurn
+    ? `You are editing the ${label} that illustrates the report section "${heading}".\n\nSection text:\n${sectionText}\n\n`
+    : "";
+  const source = currentSource.trim()
+    ? `Current ${label} source:\n\`\`\`${fence}\n${currentSource}\n\`\`\`\n\n`
+    : `There is no ${label} yet; create one from the section text.\n\n`;
+
+  return {
+    role: "user",
+    content: `${context}${source}Instruction: ${instruction}\n\nReply with the complete updated ${label} source only, in a single \`\`\`${fence} code block, with no explanations.`,
+  };
+}
+
+// Pulls the source out of a model reply, with or without a surrounding code fence.
+export function extractSourceFromReply(reply: string): string {
+  const fenced = /```[\w-]*\s*\n([\s\S]*?)```/.exec(reply);
+  if (fenced) return fenced[1].trim();
+  // An unterminated fence while the reply is still streaming
+  return reply.replace(/^\s*```[\w-]*\s*\n?/, "").trim();
+}
+
+export type ChatTurn = {
+  instruction: string;
+  request: ChatMessage;
+  reply: string;
+  status: "pending" | "accepted" | "rejected";
+};
+
+export const toChatMessages = (turns: ChatTurn[]): ChatMessage[] =>
+  turns.flatMap(turn => [turn.request, { role: "assistant" as const, content: turn.reply }]);
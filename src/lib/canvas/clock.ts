@@ -0,0 +1,96 @@
+// Script fragment that swaps a page's clock for a virtual one: timers, requestAnimationFrame,
+// performance.now and Date.now only move when `clock.advance(time)` is called, and CSS and
+// Web Animations are paused and positioned on the same clock. It defines `clock` and must
+// run before the page's own scripts; the capture and canvas runtime scripts embed it and
+// decide when time moves.
+export const virtualClockScript = `
+  var clock = (function () {
+    var real = {
+      setTimeout: window.setTimeout.bind(window),
+      requestAnimationFrame: window.requestAnimationFrame.bind(window),
+      now: performance.now.bind(performance),
+    };
+    var epoch = Date.now();
+    var now = 0;
+    var nextId = 1;
+    var timers = new Map();
+    var frameCallbacks = new Map();
+    var animationStarts = new WeakMap();
+    var api;
+
+    performance.now = function () { return now; };
+    Date.now = function () { return epoch + now; };
+
+    function addTimer(callback, delay, args, repeat) {
+      var id = nextId++;
+      var wait = Math.max(0, Number(delay) || 0);
+      timers.set(id, { due: now + wait, callback: callback, args: args, interval: repeat ? Math.max(1, wait) : 0 });
+      return id;
+    }
+    window.setTimeout = function (callback, delay) { return addTimer(callback, delay, [].slice.call(arguments, 2), false); };
+    window.setInterval = function (callback, delay) { return addTimer(callback, delay, [].slice.call(arguments, 2), true); };
+    window.clearTimeout = window.clearInterval = function (id) { timers.delete(id); };
+    window.requestAnimationFrame = function (callback) { var id = nextId++; frameCallbacks.set(id, callback); return id; };
+    window.cancelAnimationFrame = function (id) { frameCallbacks.delete(id); };
+
+    function run(callback, args) {
+      try {
+        if (typeof callback === 'function') callback.apply(window, args);
+        else (0, eval)(String(callback));
+      } catch (error) {
+        // The clock keeps going whatever a callback throws
+        api.onError(error);
+      }
+    }
+
+    // Fires every timer due by \`time\`, in order, with the clock set to each timer's due time
+    function runTimers(time) {
+      for (var guard = 0; guard < 100000; guard++) {
+        var nextTimer = null;
+        var nextTimerId = 0;
+        timers.forEach(function (timer, id) {
+          if (timer.due <= time && (!nextTimer || timer.due < nextTimer.due)) { nextTimer = timer; nextTimerId = id; }
+        });
+        if (!nextTimer) break;
+        now = Math.max(now, nextTimer.due);
+        if (nextTimer.interval) nextTimer.due += nextTimer.interval;
+        else timers.delete(nextTimerId);
+        run(nextTimer.callback, nextTimer.args);
+      }
+      now = Math.max(now, time);
+    }
+
+    function runAnimationFrame() {
+      var callbacks = Array.from(frameCallbacks.values());
+      frameCallbacks.clear();
+      callbacks.forEach(function (callback) { run(callback, [now]); });
+    }
+
+    // Animations are counted from when the clock first saw them
+    function syncAnimations() {
+      document.getAnimations().forEach(function (animation) {
+        if (!animationStarts.has(animation)) animationStarts.set(animation, now);
+        animation.pause();
+        animation.currentTime = now - animationStarts.get(animation);
+      });
+    }
+
+    api = {
+      real: real,
+      now: function () { return now; },
+      runTimers: runTimers,
+      // Moves the clock to \`time\` in steps of at most \`maxStep\` ms, with an animation frame per step
+      advance: function (time, maxStep) {
+        do {
+          runTimers(Math.min(time, now + (maxStep || Infinity)));
+          runAnimationFrame();
+        } while (now < time);
+        syncAnimations();
+      },
+      // Called with whatever a timer or animation frame callback throws; by default it's
+      // rethrown as an uncaught error
+      onError: function (error) { real.setTimeout(function () { throw error; }, 0); },
+    };
+    return api;
+  })();
+`;
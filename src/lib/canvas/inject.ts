@@ -0,0 +1,16 @@
+// Where markup can go so it comes before the document's own scripts: just inside
+// <head> (or <html>), and never ahead of the doctype, which would switch to quirks mode.
+// The tag name has to end where the pattern does, so a <header> in the body isn't taken
+// for <head>: a CSP <meta> there would be ignored.
+export function scriptInsertionPoint(html: string): number {
+  const anchor =
+    /<head(?:\s[^>]*)?>/i.exec(html) ?? /<html(?:\s[^>]*)?>/i.exec(html) ?? /<!doctype[^>]*>/i.exec(html);
+  return anchor ? anchor.index + anchor[0].length : 0;
+}
+
+export function injectHead(html: string, markup: string): string {
+  const at = scriptInsertionPoint(html);
+  return `${html.slice(0, at)}${markup}${html.slice(at)}`;
+}
+
+export const injectScript = (html: string, source: string) => injectHead(html, `<script>${source}</script>`);
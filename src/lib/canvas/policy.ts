@@ -0,0 +1,42 @@
+import { escapeHtml } from "../animation/html";
+import { injectHead } from "./inject";
+
+// The Content-Security-Policy every canvas document runs under. Canvas frames are
+// sandboxed without allow-same-origin, so they can't reach the app's origin, its session
+// or its storage; the policy also stops them sending anything over the network. Scripts,
+// styles, images and fonts may still load from https, which is how pasted code pulls in
+// libraries from a CDN.
+export const CANVAS_CSP = [
+  "default-src 'none'",
+  "script-src 'unsafe-inline' 'unsafe-eval' https:",
+  "style-src 'unsafe-inline' https:",
+  "img-src data: blob: https:",
+  "font-src data: https:",
+  "media-src data: blob:",
+  "connect-src 'none'",
+  "form-action 'none'",
+  "base-uri 'none'",
+].join("; ");
+
+// Adds the policy ahead of everything else the document loads
+export const withCanvasPolicy = (html: string) =>
+  injectHead(html, `<meta http-equiv="Content-Security-Policy" content="${escapeHtml(CANVAS_CSP)}">`);
+
+// APIs that fail inside a canvas, since it has no network access and no storage of its own
+const blockedApis: { name: string; pattern: RegExp }[] = [
+  { name: "fetch", pattern: /\bfetch\s*\(/ },
+  { name: "XMLHttpRequest", pattern: /\bXMLHttpRequest\b/ },
+  { name: "WebSocket", pattern: /\bWebSocket\b/ },
+  { name: "EventSource", pattern: /\bEventSource\b/ },
+  { name: "navigator.sendBeacon", pattern: /\bsendBeacon\b/ },
+  { name: "localStorage", pattern: /\blocalStorage\b/ },
+  { name: "sessionStorage", pattern: /\bsessionStorage\b/ },
+  { name: "indexedDB", pattern: /\bindexedDB\b/ },
+  { name: "document.cookie", pattern: /\bdocument\.cookie\b/ },
+  { name: "caches", pattern: /\bcaches\.(?:open|match|has|keys|delete)\b/ },
+];
+
+// The network and storage APIs a canvas's code asks for, by name. It's a text search, so
+// a mention in a comment counts too; it's only used to warn before saving.
+export const findBlockedApis = (code: string): string[] =>
+  blockedApis.filter(({ pattern }) => pattern.test(code)).map(({ name }) => name);
@@ -0,0 +1,25 @@
+// Messages between the app and a canvas frame running the canvas runtime (see
+// withCanvasRuntime). Every message carries `channel: CANVAS_CHANNEL`, so it can't be
+// confused with anything else the page posts. Restarting isn't a message: the host
+// remounts the frame, since a page's own state can't be reset from inside it.
+export const CANVAS_CHANNEL = "canvas";
+
+// host -> frame; times are in milliseconds on the canvas clock
+export type CanvasCommand =
+  | { type: "play" }
+  | { type: "pause" }
+  | { type: "seek"; time: number }; // forward only; see useCanvasControls
+
+export type ConsoleLevel = "log" | "info" | "warn" | "error" | "debug";
+
+// frame -> host
+export type CanvasEvent =
+  // Once the page has loaded. `duration` is when its CSS animations end, or null when
+  // they repeat forever or there are none
+  | { type: "ready"; duration: number | null }
+  | { type: "state"; playing: boolean; time: number }
+  | { type: "error"; message: string; line?: number; column?: number }
+  | { type: "console"; level: ConsoleLevel; text: string };
+
+export const isCanvasEvent = (data: unknown): data is CanvasEvent =>
+  typeof data === "object" && data !== null && (data as { channel?: unknown }).channel === CANVAS_CHANNEL;
@@ -0,0 +1,127 @@
+import { virtualClockScript } from "./clock";
+import { injectScript, scriptInsertionPoint } from "./inject";
+import { CANVAS_CHANNEL } from "./protocol";
+
+// Runs inside every canvas frame the app displays. The page runs on a virtual clock that
+// follows real time while playing, which is what lets the host pause it and skip ahead
+// (see protocol.ts for the messages). Uncaught errors and console output are forwarded
+// to the host, with line numbers counted in the canvas's own code rather than the
+// document with this script in it.
+const runtimeScript = (scriptLine: number, scriptLines: number) => `
+(function () {
+${virtualClockScript}
+  var channel = ${JSON.stringify(CANVAS_CHANNEL)};
+  var playing = true;
+  var lastFrame = clock.real.now();
+  var lastReport = -Infinity;
+  var logged = 0;
+
+  function send(message) {
+    message.channel = channel;
+    parent.postMessage(message, '*');
+  }
+
+  function reportState() {
+    send({ type: 'state', playing: playing, time: clock.now() });
+  }
+
+  // The line as the canvas's author wrote it; lines after this script are shifted down by it
+  function sourceLine(line) {
+    return line >= ${scriptLine} + ${scriptLines} ? line - ${scriptLines} : line;
+  }
+
+  function reportError(message, line, column) {
+    send({ type: 'error', message: message, line: line ? sourceLine(line) : undefined, column: column || undefined });
+  }
+
+  function describe(error) {
+    return error instanceof Error ? error.name + ': ' + error.message : String(error);
+  }
+
+  // Where an error was thrown in the document itself (not a script it loaded)
+  function reportThrown(error) {
+    var at = error && typeof error.stack === 'string' ? /about:srcdoc:(\\d+):(\\d+)/.exec(error.stack) : null;
+    reportError(describe(error), at ? Number(at[1]) : undefined, at ? Number(at[2]) : undefined);
+  }
+
+  clock.onError = reportThrown;
+  window.addEventListener('error', function (event) {
+    var inDocument = !event.filename || event.filename === location.href;
+    reportError(event.message || describe(event.error), inDocument ? event.lineno : undefined, inDocument ? event.colno : undefined);
+  });
+  window.addEventListener('unhandledrejection', function (event) {
+    reportThrown(event.reason);
+  });
+
+  function format(value) {
+    if (typeof value === 'string') return value;
+    if (value instanceof Error) return describe(value);
+    try {
+      var json = JSON.stringify(value);
+      if (json !== undefined) return json;
+    } catch (error) { /* circular; falls through */ }
+    return String(value);
+  }
+  ['log', 'info', 'warn', 'error', 'debug'].forEach(function (level) {
+    var original = console[level];
+    console[level] = function () {
+      original.apply(console, arguments);
+      // A log call in an animation loop would otherwise flood the host
+      if (++logged > 200) return;
+      var text = logged === 200 ? 'Too much console output; the rest is not shown.' : [].map.call(arguments, format).join(' ');
+      send({ type: 'console', level: logged === 200 ? 'warn' : level, text: text });
+    };
+  });
+
+  // A frame that comes late (a hidden tab, a long task) doesn't make the canvas jump ahead
+  function loop() {
+    var frame = clock.real.now();
+    if (playing) {
+      clock.advance(clock.now() + Math.min(frame - lastFrame, 100), 16);
+      if (frame - lastReport >= 250) {
+        lastReport = frame;
+        reportState();
+      }
+    }
+    lastFrame = frame;
+    clock.real.requestAnimationFrame(loop);
+  }
+  clock.real.requestAnimationFrame(loop);
+
+  window.addEventListener('message', function (event) {
+    var data = event.data;
+    if (event.source !== parent || !data || data.channel !== channel) return;
+    if (data.type === 'play') playing = true;
+    else if (data.type === 'pause') playing = false;
+    else if (data.type === 'seek' && data.time > clock.now()) clock.advance(data.time, 16);
+    reportState();
+  });
+
+  // When the CSS animations end, if they all do
+  function duration() {
+    var animations = document.getAnimations();
+    if (animations.length === 0) return null;
+    var end = 0;
+    for (var i = 0; i < animations.length; i++) {
+      var timing = animations[i].effect ? animations[i].effect.getComputedTiming() : null;
+      if (!timing || !isFinite(timing.endTime)) return null;
+      end = Math.max(end, timing.endTime);
+    }
+    return end;
+  }
+
+  window.addEventListener('load', function () {
+    send({ type: 'ready', duration: duration() });
+    reportState();
+  });
+})();
+`;
+
+const newlines = (text: string) => text.split("\n").length - 1;
+
+// Adds the canvas runtime ahead of the document's own scripts
+export function withCanvasRuntime(html: string): string {
+  const scriptLine = newlines(html.slice(0, scriptInsertionPoint(html))) + 1;
+  // Substituting the numbers doesn't change how many lines the script takes
+  return injectScript(html, runtimeScript(scriptLine, newlines(runtimeScript(0, 0))));
+}
@@ -0,0 +1,110 @@
+import { escapeHtml } from "../animation/html";
+import { renderChart } from "../chart/render";
+import { parseChartSpec } from "../chart/spec";
+import { renderMermaid, type MermaidRender } from "../mermaid/render";
+import { withCanvasPolicy } from "./policy";
+import type { RevisionKind } from "../supabase/revisions";
+
+export const defaultBlankSnippet = `<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <style>
+      html, body { margin: 0; padding: 0; height: 100%; }
+      .center { display: grid; place-items: center; height: 100%; font: 16px system-ui; }
+    </style>
+  </head>
+  <body>
+    <div class="center">Click the canvas to edit and paste your code.</div>
+    <script>
+      // You can paste your JS here. Include script tags to load libraries if needed.
+      // Example: simple animation without external libs
+      const el = document.querySelector('.center');
+      let t = 0;
+      setInterval(() => { el.style.transform = 'scale(' + (1 + 0.05*Math.sin(t)) + ')'; t += 0.2; }, 30);
+    </script>
+  </body>
+</html>`;
+
+// A centered line of text in place of a canvas
+function messageDoc(message: string, color: string): string {
+  return `<!doctype html>
+<html>
+  <body style="margin: 0; height: 100vh; display: grid; place-items: center; font: 14px system-ui; color: ${color};">
+    ${escapeHtml(message)}
+  </body>
+</html>`;
+}
+
+function chartDoc(chartSpec: string): string {
+  const check = parseChartSpec(chartSpec);
+  return check.ok ? renderChart(check.spec) : messageDoc(check.error, "#b91c1c");
+}
+
+// A diagram rendered in the app (see renderMermaid), scaled to fit the canvas. The
+// document is static: no scripts and nothing loaded from the network.
+function diagramDoc(svg: string): string {
+  return `<!doctype html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <title>Mermaid Diagram</title>
+  <style>
+    * { box-sizing: border-box; }
+    html, body { margin: 0; height: 100%; background: #f8fafc; font-family: system-ui, -apple-system, sans-serif; overflow: hidden; }
+    .container { display: flex; align-items: center; justify-content: center; height: 100vh; width: 100vw; padding: 20px; }
+    .container > svg { width: 100%; height: 100%; max-width: 100% !important; }
+  </style>
+</head>
+<body>
+  <div class="container">
+${svg}
+  </div>
+</body>
+</html>`;
+}
+
+type CanvasSources = {
+  mermaidCode?: string;
+  mermaid?: MermaidRender | null; // mermaidCode rendered by renderMermaid; unset while it renders
+  chartSpec?: string;
+  animationCode?: string;
+  show?: RevisionKind;
+};
+
+// Which canvas a section displays. `show` picks one; without it (or when that canvas
+// is empty) a Mermaid diagram takes precedence over a chart and then animation code.
+export function shownCanvasKind({ mermaidCode, chartSpec, animationCode, show }: CanvasSources): RevisionKind | null {
+  const present: Record<RevisionKind, boolean> = { mermaid: !!mermaidCode, chart: !!chartSpec, code: !!animationCode };
+  if (show && present[show]) return show;
+  return (["mermaid", "chart", "code"] as const).find(kind => present[kind]) ?? null;
+}
+
+function canvasDocument(sources: CanvasSources): string {
+  const { mermaid, chartSpec, animationCode } = sources;
+  const kind = shownCanvasKind(sources);
+
+  if (kind === "mermaid") {
+    if (!mermaid) return messageDoc("Rendering diagram…", "#64748b");
+    return mermaid.ok ? diagramDoc(mermaid.svg) : messageDoc(mermaid.error.message, "#b91c1c");
+  } else if (kind === "chart") {
+    return chartDoc(chartSpec!);
+  } else if (kind === "code") {
+    return animationCode!;
+  } else {
+    return defaultBlankSnippet;
+  }
+}
+
+// Builds the iframe document for a section canvas (see shownCanvasKind), under the
+// canvas Content-Security-Policy. With no canvas, the blank starter snippet shows.
+// Diagrams must be rendered beforehand and passed in as `mermaid`; renderCanvasSrcDoc does that.
+export const buildCanvasSrcDoc = (sources: CanvasSources) => withCanvasPolicy(canvasDocument(sources));
+
+// buildCanvasSrcDoc for use outside React, rendering the diagram first when one shows
+export async function renderCanvasSrcDoc(sources: CanvasSources): Promise<string> {
+  const mermaid = shownCanvasKind(sources) === "mermaid" ? await renderMermaid(sources.mermaidCode!) : sources.mermaid;
+  return buildCanvasSrcDoc({ ...sources, mermaid });
+}
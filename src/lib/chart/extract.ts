@@ -0,0 +1,125 @@
+import type { Section } from "../markdown/sections";
+import { sectionSentences } from "../markdown/sections";
+import type { ChartSpec, ChartType } from "./spec";
+
+type Figure = { value: number; prefix: string; suffix: string };
+
+// A number as written in a report: optional currency, thousands separators, decimals,
+// then an optional unit ("48%", "$1,200", "3.5 million", "12 ms")
+const figurePattern = /^([$€£]?)\s?(-?\d[\d,]*(?:\.\d+)?)\s?(%|[a-zA-Z]{1,12})?$/;
+const sentenceFigures = /(?:from\s+)?([$€£]?\s?(?<![\w.])\d[\d,]*(?:\.\d+)?\s?(?:%|(?:k|m|bn|million|billion|trillion|ms|s|x)\b)?)/gi;
+
+const datePattern = /^(?:Q[1-4]\s+)?(?:19|20)\d{2}s?$|^(?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?(?:\s+\d{2,4})?$|^\d{4}-\d{2}$/i;
+
+const stopWords = new Set(["the", "a", "an", "of", "in", "to", "from", "by", "and", "was", "were", "is", "are", "grew", "rose", "fell", "dropped", "increased", "decreased", "reached", "at", "with", "for", "about", "around", "nearly", "over", "under", "than", "only", "just"]);
+
+export function parseFigure(text: string): Figure | null {
+  const match = figurePattern.exec(text.trim());
+  if (!match) return null;
+  const [, prefix, number, unit = ""] = match;
+  return {
+    value: Number(number.replace(/,/g, "")),
+    prefix,
+    suffix: unit === "%" ? "%" : unit ? ` ${unit}` : "",
+  };
+}
+
+// Line for anything over time, pie for shares of a whole, bars otherwise
+export function chooseChartType(labels: string[], series: ChartSpec["series"], suffix: string): ChartType {
+  if (labels.length >= 3 && labels.every(label => datePattern.test(label.trim()))) return "line";
+  if (series.length === 1 && suffix === "%" && series[0].values.every(v => v >= 0)) {
+    const total = series[0].values.reduce((sum, v) => sum + v, 0);
+    if (Math.abs(total - 100) <= 2) return "pie";
+  }
+  return "bar";
+}
+
+// Numeric columns of the first table that has any; the first column names the rows
+function chartFromTable(section: Section): ChartSpec | null {
+  for (const block of section.blocks) {
+    if (block.type !== "table" || block.rows.length < 2) continue;
+
+    const series: ChartSpec["series"] = [];
+    let unit: Figure | null = null;
+    for (let column = 1; column < block.header.length; column++) {
+      const figures = block.rows.map(row => parseFigure(row[column] ?? ""));
+      if (figures.some(f => f === null)) continue;
+      unit ??= figures[0];
+      series.push({ name: block.header[column], values: figures.map(f => f!.value) });
+    }
+    if (series.length === 0 || !unit) continue;
+
+    // A unit written in the header, e.g. "Share (%)", "Revenue ($m)" or "Latency (ms)"
+    const headerUnit = /\(([^)]+)\)\s*$/.exec(block.header[1] ?? "")?.[1] ?? "";
+    const [, headerPrefix = "", headerSuffix = ""] = /^([$€£]?)\s?(.*)$/.exec(headerUnit) ?? [];
+    const prefix = unit.prefix || headerPrefix;
+    const suffix = unit.suffix || (headerSuffix === "%" || headerPrefix ? headerSuffix : headerSuffix && ` ${headerSuffix}`);
+    const labels = block.rows.map(row => row[0]);
+    return {
+      type: chooseChartType(labels, series, suffix),
+      title: section.heading,
+      labels,
+      series,
+      prefix: prefix || undefined,
+      suffix: suffix || undefined,
+    };
+  }
+  return null;
+}
+
+// A short label from the words around a figure: "adoption grew from 12%" -> "Adoption"
+function labelFor(clause: string, figure: string): string {
+  const words = clause.replace(figure, " ").replace(/[^\w\s'-]/g, " ").split(/\s+/).filter(Boolean);
+  const kept = words.filter(word => !stopWords.has(word.toLowerCase())).slice(0, 4).join(" ");
+  return kept ? kept[0].toUpperCase() + kept.slice(1) : figure;
+}
+
+// Figures in the prose that share a unit. "from 12% to 48%" becomes a before/after pair.
+function chartFromFigures(section: Section): ChartSpec | null {
+  const points: { label: string; figure: Figure }[] = [];
+
+  for (const sentence of sectionSentences(section)) {
+    const change = /^(.*?)\bfrom\s+(\S+(?:\s(?:million|billion|trillion))?)\s+to\s+(\S+(?:\s(?:million|billion|trillion))?)/i.exec(sentence);
+    const before = change && parseFigure(change[2].replace(/[.,;]$/, ""));
+    const after = change && parseFigure(change[3].replace(/[.,;]$/, ""));
+    if (change && before && after) {
+      const subject = labelFor(change[1], "");
+      points.push({ label: `${subject} (before)`, figure: before }, { label: `${subject} (after)`, figure: after });
+      continue;
+    }
+
+    for (const clause of sentence.split(/[,;]|\band\b/)) {
+      const match = clause.match(sentenceFigures)?.map(m => m.replace(/^from\s+/i, "").trim()).find(m => /\d/.test(m));
+      const figure = match ? parseFigure(match) : null;
+      // Bare years read as dates, not data
+      if (!match || !figure || (!figure.prefix && !figure.suffix && /^(19|20)\d{2}$/.test(match))) continue;
+      points.push({ label: labelFor(clause, match), figure });
+    }
+  }
+
+  // Keep the largest group of figures in the same unit
+  const groups = new Map<string, typeof points>();
+  for (const point of points) {
+    const key = `${point.figure.prefix}|${point.figure.suffix}`;
+    groups.set(key, [...(groups.get(key) ?? []), point]);
+  }
+  const group = Array.from(groups.values()).sort((a, b) => b.length - a.length)[0];
+  if (!group || group.length < 2) return null;
+
+  const { prefix, suffix } = group[0].figure;
+  const labels = group.slice(0, 8).map(p => p.label);
+  const series = [{ name: section.heading, values: group.slice(0, 8).map(p => p.figure.value) }];
+  return {
+    type: chooseChartType(labels, series, suffix),
+    title: section.heading,
+    labels,
+    series,
+    prefix: prefix || undefined,
+    suffix: suffix || undefined,
+  };
+}
+
+// The chart a section's own data supports, or null when it has nothing to plot
+export function extractChartSpec(section: Section): ChartSpec | null {
+  return chartFromTable(section) ?? chartFromFigures(section);
+}
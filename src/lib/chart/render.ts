@@ -0,0 +1,144 @@
+import { animationPage, clip, escapeHtml } from "../animation/html";
+import { formatChartValue, type ChartSpec } from "./spec";
+
+const palette = ["#6366f1", "#f59e0b", "#10b981", "#ef4444", "#0ea5e9", "#a855f7", "#84cc16", "#ec4899"];
+
+// Plot area inside a 960x480 viewBox, leaving room for axis labels and the legend
+const width = 960;
+const height = 480;
+const plot = { left: 80, right: 940, top: 30, bottom: 400 };
+
+// Rounds the axis maximum up to a readable step so gridlines land on round numbers
+function niceMax(value: number): number {
+  if (value <= 0) return 1;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const step = [1, 2, 2.5, 5, 10].find(s => s * magnitude >= value)! * magnitude;
+  return step;
+}
+
+function valueRange(spec: ChartSpec): { min: number; max: number } {
+  const values = spec.series.flatMap(s => s.values);
+  const min = Math.min(0, ...values);
+  return { min: min < 0 ? -niceMax(-min) : 0, max: niceMax(Math.max(...values, 0)) };
+}
+
+function axes(spec: ChartSpec, min: number, max: number, y: (value: number) => number): string {
+  const ticks = Array.from({ length: 5 }, (_, i) => min + ((max - min) * i) / 4);
+  return ticks.map(tick => `
+      <line class="grid" x1="${plot.left}" x2="${plot.right}" y1="${y(tick)}" y2="${y(tick)}" />
+      <text class="tick" x="${plot.left - 10}" y="${y(tick) + 4}" text-anchor="end">${escapeHtml(formatChartValue(spec, tick))}</text>`).join("");
+}
+
+function barChart(spec: ChartSpec): string {
+  const { min, max } = valueRange(spec);
+  const y = (value: number) => plot.bottom - ((value - min) / (max - min)) * (plot.bottom - plot.top);
+  const band = (plot.right - plot.left) / spec.labels.length;
+  const barWidth = Math.min(80, (band * 0.7) / spec.series.length);
+
+  const bars = spec.labels.map((label, i) => {
+    const groupLeft = plot.left + band * i + (band - barWidth * spec.series.length) / 2;
+    const columns = spec.series.map((series, s) => {
+      const value = series.values[i];
+      const top = Math.min(y(value), y(0));
+      const x = groupLeft + barWidth * s;
+      const delay = (i * 0.15 + s * 0.05).toFixed(2);
+      return `
+      <rect class="bar" x="${x}" y="${top}" width="${barWidth - 4}" height="${Math.abs(y(value) - y(0))}" fill="${palette[s % palette.length]}" style="animation-delay: ${delay}s" />
+      <text class="value" x="${x + (barWidth - 4) / 2}" y="${top - 8}" text-anchor="middle" style="animation-delay: ${(Number(delay) + 0.6).toFixed(2)}s">${escapeHtml(formatChartValue(spec, value))}</text>`;
+    }).join("");
+    return `${columns}
+      <text class="label" x="${plot.left + band * (i + 0.5)}" y="${plot.bottom + 24}" text-anchor="middle">${escapeHtml(clip(label, 18))}</text>`;
+  }).join("");
+
+  return `${axes(spec, min, max, y)}${bars}`;
+}
+
+function lineChart(spec: ChartSpec): string {
+  const { min, max } = valueRange(spec);
+  const y = (value: number) => plot.bottom - ((value - min) / (max - min)) * (plot.bottom - plot.top);
+  const step = spec.labels.length > 1 ? (plot.right - plot.left - 40) / (spec.labels.length - 1) : 0;
+  const x = (i: number) => plot.left + 20 + step * i;
+
+  const lines = spec.series.map((series, s) => {
+    const color = palette[s % palette.length];
+    const path = series.values.map((value, i) => `${i === 0 ? "M" : "L"}${x(i)},${y(value)}`).join(" ");
+    const dots = series.values.map((value, i) => {
+      const delay = (0.3 + (1.5 * i) / Math.max(1, series.values.length - 1)).toFixed(2);
+      return `
+      <circle class="dot" cx="${x(i)}" cy="${y(value)}" r="6" fill="${color}" style="animation-delay: ${delay}s" />
+      <text class="value" x="${x(i)}" y="${y(value) - 14}" text-anchor="middle" style="animation-delay: ${delay}s">${escapeHtml(formatChartValue(spec, value))}</text>`;
+    }).join("");
+    return `
+      <path class="line" d="${path}" stroke="${color}" pathLength="1" style="animation-delay: ${(s * 0.2).toFixed(2)}s" />${dots}`;
+  }).join("");
+
+  const labels = spec.labels.map((label, i) => `
+      <text class="label" x="${x(i)}" y="${plot.bottom + 24}" text-anchor="middle">${escapeHtml(clip(label, 14))}</text>`).join("");
+
+  return `${axes(spec, min, max, y)}${lines}${labels}`;
+}
+
+// Donut segments drawn as stroked circles, each starting where the previous one ended
+function pieChart(spec: ChartSpec): string {
+  const values = spec.series[0].values;
+  const total = values.reduce((sum, v) => sum + v, 0) || 1;
+  const cx = 300;
+  const cy = 230;
+  let offset = 0;
+
+  const segments = values.map((value, i) => {
+    const share = (value / total) * 100;
+    const segment = `
+      <circle class="slice" cx="${cx}" cy="${cy}" r="150" pathLength="100" stroke="${palette[i % palette.length]}"
+        stroke-dasharray="${share} ${100 - share}" stroke-dashoffset="${-offset}" style="animation-delay: ${(i * 0.3).toFixed(2)}s" />`;
+    offset += share;
+    return segment;
+  }).join("");
+
+  const legend = spec.labels.map((label, i) => `
+      <g class="legend-item" style="animation-delay: ${(i * 0.3 + 0.3).toFixed(2)}s">
+        <rect x="560" y="${80 + i * 40}" width="20" height="20" rx="4" fill="${palette[i % palette.length]}" />
+        <text class="label" x="592" y="${96 + i * 40}">${escapeHtml(clip(label, 30))} · ${escapeHtml(formatChartValue(spec, values[i]))}</text>
+      </g>`).join("");
+
+  return `<g transform="rotate(-90 ${cx} ${cy})">${segments}
+      </g>${legend}`;
+}
+
+const renderers = { bar: barChart, line: lineChart, pie: pieChart };
+
+// Self-contained animated SVG chart for the section canvas
+export function renderChart(spec: ChartSpec): string {
+  const legend = spec.type !== "pie" && spec.series.length > 1
+    ? `<div class="legend">${spec.series.map((s, i) => `<span><i style="background: ${palette[i % palette.length]}"></i>${escapeHtml(s.name)}</span>`).join("")}</div>`
+    : "";
+
+  return animationPage({
+    title: spec.title || "Chart",
+    background: "#ffffff",
+    css: `
+      .container { display: flex; flex-direction: column; height: 100vh; padding: 20px 30px; color: #1e293b; }
+      .title { font-size: 1.6rem; margin-bottom: 0.5rem; text-shadow: none; }
+      svg { flex: 1; min-height: 0; width: 100%; }
+      .grid { stroke: #e2e8f0; }
+      .tick, .label { font-size: 14px; fill: #475569; }
+      .value { font-size: 14px; font-weight: 600; fill: #1e293b; opacity: 0; animation: fadeIn 0.4s ease-out forwards; }
+      .bar { transform-box: fill-box; transform-origin: bottom; animation: rise 0.8s cubic-bezier(0.2, 0.8, 0.2, 1) both; }
+      .line { fill: none; stroke-width: 4; stroke-linejoin: round; stroke-dasharray: 1; stroke-dashoffset: 0; animation: draw 1.8s ease-in-out both; }
+      .dot { opacity: 0; animation: fadeIn 0.3s ease-out forwards; }
+      .slice { fill: none; stroke-width: 90; animation: sweep 0.8s ease-out both; }
+      .legend-item { opacity: 0; animation: fadeIn 0.5s ease-out forwards; }
+      .legend { display: flex; justify-content: center; gap: 1.5rem; font-size: 0.9rem; }
+      .legend i { display: inline-block; width: 12px; height: 12px; border-radius: 3px; margin-right: 6px; }
+      @keyframes rise { from { transform: scaleY(0); } }
+      @keyframes draw { from { stroke-dashoffset: 1; } }
+      @keyframes sweep { from { stroke-dasharray: 0 100; } }`,
+    body: `
+    <div class="container">
+      <h1 class="title">${escapeHtml(spec.title)}</h1>
+      <svg viewBox="0 0 ${width} ${height}" preserveAspectRatio="xMidYMid meet">${renderers[spec.type](spec)}
+      </svg>
+      ${legend}
+    </div>`,
+  });
+}
@@ -0,0 +1,64 @@
+export type ChartType = "bar" | "line" | "pie";
+
+export const CHART_TYPES: ChartType[] = ["bar", "line", "pie"];
+
+// A section chart, stored on the section as JSON so it can be edited and versioned like
+// the other canvases. Values are plain numbers; the unit is kept for display.
+export type ChartSpec = {
+  type: ChartType;
+  title: string;
+  labels: string[]; // category or x-axis labels
+  series: { name: string; values: number[] }[]; // one value per label
+  prefix?: string; // unit written before the number, e.g. "$"
+  suffix?: string; // unit written after it, e.g. "%" or " million"
+};
+
+export type ChartCheck = { ok: true; spec: ChartSpec } | { ok: false; error: string };
+
+export const stringifyChartSpec = (spec: ChartSpec) => JSON.stringify(spec, null, 2);
+
+// Checks stored or hand-edited JSON before it is rendered
+export function parseChartSpec(source: string): ChartCheck {
+  let value: unknown;
+  try {
+    value = JSON.parse(source);
+  } catch (error) {
+    return { ok: false, error: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` };
+  }
+
+  const spec = value as Partial<ChartSpec> | null;
+  if (!spec || typeof spec !== "object") return { ok: false, error: "The chart must be a JSON object" };
+  if (!CHART_TYPES.includes(spec.type as ChartType)) {
+    return { ok: false, error: `"type" must be one of ${CHART_TYPES.join(", ")}` };
+  }
+  if (!Array.isArray(spec.labels) || spec.labels.length === 0 || !spec.labels.every(l => typeof l === "string")) {
+    return { ok: false, error: `"labels" must be a non-empty list of strings` };
+  }
+  if (!Array.isArray(spec.series) || spec.series.length === 0) {
+    return { ok: false, error: `"series" must be a non-empty list` };
+  }
+  for (const series of spec.series) {
+    if (!Array.isArray(series?.values) || series.values.length !== spec.labels.length || !series.values.every(Number.isFinite)) {
+      return { ok: false, error: `Every series needs one number per label (${spec.labels.length})` };
+    }
+  }
+  if (spec.type === "pie" && spec.series[0].values.some(v => v < 0)) {
+    return { ok: false, error: "Pie charts can't show negative values" };
+  }
+
+  return {
+    ok: true,
+    spec: {
+      type: spec.type as ChartType,
+      title: typeof spec.title === "string" ? spec.title : "",
+      labels: spec.labels,
+      series: spec.series.map((s, i) => ({ name: typeof s.name === "string" ? s.name : `Series ${i + 1}`, values: s.values })),
+      prefix: typeof spec.prefix === "string" ? spec.prefix : undefined,
+      suffix: typeof spec.suffix === "string" ? spec.suffix : undefined,
+    },
+  };
+}
+
+export function formatChartValue(spec: Pick<ChartSpec, "prefix" | "suffix">, value: number): string {
+  return `${spec.prefix ?? ""}${value.toLocaleString("en-US", { maximumFractionDigits: 2 })}${spec.suffix ?? ""}`;
+}
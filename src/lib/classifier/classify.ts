@@ -0,0 +1,109 @@
+import type { Section } from "../markdown/sections";
+import { extractSectionContent, type SectionContent } from "../markdown/content";
+import { DEFAULT_CLASSIFIER_RULES, type ClassifierRules, type ContentCategory } from "./rules";
+
+export type Evidence = {
+  category: ContentCategory;
+  source: "heading" | "text" | "structure";
+  match: string; // the word, phrase or structure found, e.g. "steps" or "4 ordered list items"
+  weight: number;
+};
+
+export type Classification = {
+  category: ContentCategory;
+  confidence: number; // 0 to 1
+  evidence: Evidence[]; // for the winning category, strongest first
+  scores: Record<ContentCategory, number>;
+};
+
+const HEADING_WEIGHT = 2;
+const TEXT_WEIGHT = 1;
+// Repeats of one keyword add less and less; the fifth "step" shouldn't outweigh a heading
+const MAX_MATCHES_PER_KEYWORD = 3;
+// A category needs about this much evidence before its confidence can reach 1
+const STRONG_EVIDENCE = 4;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const keywordPatterns = new Map<string, RegExp>();
+
+// Whole-word match with common endings, and flexible whitespace inside phrases
+function keywordPattern(keyword: string): RegExp {
+  let pattern = keywordPatterns.get(keyword);
+  if (!pattern) {
+    const body = keyword.toLowerCase().split(/\s+/).map(escapeRegExp).join("\\s+");
+    // "study" also matches "studies" and "studied"
+    const stem = /[^aeiou]y$/.test(body) ? `${body.slice(0, -1)}(?:y|ies|ied)` : `${body}(?:s|es|ed|d|ing)?`;
+    pattern = new RegExp(`(?<![\\w-])${stem}(?![\\w-])`, "gi");
+    keywordPatterns.set(keyword, pattern);
+  }
+  pattern.lastIndex = 0;
+  return pattern;
+}
+
+// Whether any keyword occurs in the text as a word (see keywordPattern)
+export const matchesKeyword = (text: string, keywords: string[]) =>
+  keywords.some(keyword => keywordPattern(keyword).test(text));
+
+function keywordEvidence(text: string, source: Evidence["source"], rules: ClassifierRules): Evidence[] {
+  const evidence: Evidence[] = [];
+  const weight = source === "heading" ? HEADING_WEIGHT : TEXT_WEIGHT;
+  for (const [category, keywords] of Object.entries(rules) as [ContentCategory, string[]][]) {
+    for (const keyword of keywords) {
+      const matches = text.match(keywordPattern(keyword)) ?? [];
+      matches.slice(0, MAX_MATCHES_PER_KEYWORD).forEach((match, i) => {
+        evidence.push({ category, source, match: match.toLowerCase(), weight: weight / (i + 1) });
+      });
+    }
+  }
+  return evidence;
+}
+
+// Signals from the section's shape rather than its words
+function structureEvidence(data: SectionContent): Evidence[] {
+  const evidence: Evidence[] = [];
+  const add = (category: ContentCategory, match: string, weight: number) =>
+    evidence.push({ category, source: "structure", match, weight });
+
+  if (data.orderedItems.length >= 2) add("process", `${data.orderedItems.length} ordered list items`, 1 + data.orderedItems.length / 2);
+  if (data.events.length >= 2) add("timeline", `${data.events.length} dated events`, 1 + data.events.length / 2);
+  if (data.stats.length >= 2) add("statistics", `${data.stats.length} figures`, 1 + data.stats.length / 2);
+  if (data.subheadings.length >= 2) add("hierarchy", `${data.subheadings.length} subheadings`, 1 + data.subheadings.length / 2);
+  for (const table of data.tables) {
+    if (table.header.length >= 3) add("comparison", `table comparing ${table.header.slice(1).join(", ")}`, 2);
+  }
+  return evidence;
+}
+
+// Scores the content against every category and returns the best one. Confidence is
+// the winner's share of all evidence, scaled down while there is little of it; content
+// with no evidence at all is "general" with confidence 0.
+export function classifyContent(data: SectionContent, rules: ClassifierRules = DEFAULT_CLASSIFIER_RULES): Classification {
+  const evidence = [
+    ...keywordEvidence(data.heading, "heading", rules),
+    ...keywordEvidence(data.sentences.join("\n"), "text", rules),
+    ...structureEvidence(data),
+  ];
+
+  const scores = {
+    process: 0, architecture: 0, comparison: 0, timeline: 0, statistics: 0,
+    hierarchy: 0, analysis: 0, optimization: 0, general: 0,
+  } satisfies Record<ContentCategory, number>;
+  for (const item of evidence) scores[item.category] += item.weight;
+
+  const total = Object.values(scores).reduce((sum, score) => sum + score, 0);
+  const [category, top] = (Object.entries(scores) as [ContentCategory, number][])
+    .reduce((best, entry) => (entry[1] > best[1] ? entry : best), ["general", 0] as [ContentCategory, number]);
+
+  if (total === 0) return { category: "general", confidence: 0, evidence: [], scores };
+
+  return {
+    category,
+    confidence: Math.round((top / total) * Math.min(1, top / STRONG_EVIDENCE) * 100) / 100,
+    evidence: evidence.filter(e => e.category === category).sort((a, b) => b.weight - a.weight),
+    scores,
+  };
+}
+
+export const classifySection = (section: Section, rules: ClassifierRules = DEFAULT_CLASSIFIER_RULES) =>
+  classifyContent(extractSectionContent(section), rules);
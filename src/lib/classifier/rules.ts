@@ -0,0 +1,64 @@
+// The categories a section can fall into. Generators and template pickers branch on
+// these rather than looking for words themselves:
+// - process: an ordered sequence of steps or stages (flowcharts, step templates)
+// - architecture: parts of a system and how they connect (component graphs)
+// - comparison: two or more options weighed against each other (split screens, LR graphs)
+// - timeline: events placed in time (timelines)
+// - statistics: findings carried by numbers (counters, charts)
+// - hierarchy: a thing broken down into kinds or parts (trees)
+// - analysis: research method, findings and interpretation
+// - optimization: making something faster, cheaper or more efficient
+// - general: none of the above; the fallback with no rules of its own
+export const CONTENT_CATEGORIES = [
+  "process",
+  "architecture",
+  "comparison",
+  "timeline",
+  "statistics",
+  "hierarchy",
+  "analysis",
+  "optimization",
+  "general",
+] as const;
+
+export type ContentCategory = (typeof CONTENT_CATEGORIES)[number];
+
+export const contentCategoryLabels: Record<ContentCategory, string> = {
+  process: "Process",
+  architecture: "Architecture",
+  comparison: "Comparison",
+  timeline: "Timeline",
+  statistics: "Statistics",
+  hierarchy: "Hierarchy",
+  analysis: "Analysis",
+  optimization: "Optimization",
+  general: "General",
+};
+
+// Keywords per category. Each keyword matches as a whole word or phrase, plus plural
+// and verb endings: "step" matches "steps" but not "footstep". Headings count double.
+export type ClassifierRules = Record<Exclude<ContentCategory, "general">, string[]>;
+
+export const DEFAULT_CLASSIFIER_RULES: ClassifierRules = {
+  process: ["workflow", "process", "step", "stage", "phase", "pipeline", "procedure", "first", "then", "next", "finally", "afterwards"],
+  architecture: ["system", "architecture", "component", "module", "layer", "service", "interface", "infrastructure", "database", "api"],
+  comparison: ["compare", "comparison", "versus", "vs", "difference", "contrast", "trade-off", "advantage", "disadvantage", "pros and cons", "alternative"],
+  timeline: ["timeline", "history", "milestone", "roadmap", "year", "quarter", "decade", "launched", "founded"],
+  statistics: ["percent", "percentage", "growth", "increase", "decrease", "average", "median", "rate", "share", "total"],
+  hierarchy: ["hierarchy", "taxonomy", "type", "category", "kind", "consists of", "subdivided", "breakdown", "tier", "level"],
+  analysis: ["analysis", "research", "study", "survey", "finding", "result", "evidence", "hypothesis", "method", "interview"],
+  optimization: ["optimization", "optimize", "performance", "latency", "throughput", "efficiency", "speed", "cache", "bottleneck", "cost"],
+};
+
+// Workspace rules replace the default keywords category by category; categories left
+// out (or stored with an unknown name) keep the defaults.
+export function mergeClassifierRules(overrides: Partial<Record<string, unknown>> | null | undefined): ClassifierRules {
+  const rules = { ...DEFAULT_CLASSIFIER_RULES };
+  for (const category of Object.keys(rules) as (keyof ClassifierRules)[]) {
+    const keywords = overrides?.[category];
+    if (Array.isArray(keywords)) {
+      rules[category] = keywords.filter((k): k is string => typeof k === "string" && k.trim() !== "").map(k => k.trim());
+    }
+  }
+  return rules;
+}
@@ -10,12 +10,18 @@ import {
 } from "@deepgram/sdk";
 
 import { createContext, useContext, useState, ReactNode, FunctionComponent, useRef } from "react";
+import type { DeepgramIssuerName } from "../deepgram/issuer";
+import { createLocalSocket, type TranscriptionSocket } from "../deepgram/localSocket";
+import { authHeaders } from "../supabase/authHeaders";
 
 interface DeepgramContextType {
-  connectToDeepgram: () => Promise<void>;
-  disconnectFromDeepgram: () => void;
+  // Resolves to whether the session started; `error` says why when it didn't
+  connectToDeepgram: () => Promise<boolean>;
+  // Returns what was transcribed in the session, including words that weren't final yet
+  disconnectFromDeepgram: () => string;
   connectionState: SOCKET_STATES;
-  realtimeTranscript: string;
+  realtimeTranscript: string; // final results so far
+  interimTranscript: string; // the words being spoken now, until Deepgram settles on them
   error: string | null;
 }
 
@@ -25,55 +31,88 @@ interface DeepgramContextProviderProps {
   children: ReactNode;
 }
 
-const getApiKey = async (): Promise<string> => {
-  const response = await fetch("/api/deepgram", { cache: "no-store" });
+type SessionKey = {
+  key: string;
+  expiresAt: string;
+  issuer: DeepgramIssuerName;
+};
+
+// A short-lived key for one recording session, issued to the signed-in user
+const requestSessionKey = async (): Promise<SessionKey> => {
+  const response = await fetch("/api/deepgram", { method: "POST", cache: "no-store", headers: await authHeaders() });
   const result = await response.json();
-  return result.key;
+  if (!response.ok) throw new Error(result.error || "Couldn't start a transcription session.");
+  return result;
 };
 
+// Interim results give a live preview; smart formatting adds punctuation and capitals
+const LISTEN_URL = "wss://api.deepgram.com/v1/listen?interim_results=true&smart_format=true";
+
+const openSocket = ({ key, issuer }: SessionKey): TranscriptionSocket =>
+  issuer === "local" ? createLocalSocket() : new WebSocket(LISTEN_URL, ["token", key]);
+
 const DeepgramContextProvider: FunctionComponent<DeepgramContextProviderProps> = ({ children }) => {
-  const [connection, setConnection] = useState<WebSocket | null>(null);
+  const connectionRef = useRef<TranscriptionSocket | null>(null);
   const [connectionState, setConnectionState] = useState<SOCKET_STATES>(SOCKET_STATES.closed);
   const [realtimeTranscript, setRealtimeTranscript] = useState("");
+  const [interimTranscript, setInterimTranscript] = useState("");
   const [error, setError] = useState<string | null>(null);
   const audioRef = useRef<MediaRecorder | null>(null);
+  // The session's transcript as of the last message, for reading it back when disconnecting
+  const transcriptRef = useRef({ final: "", interim: "" });
+  // Socket handlers outlive the render that set them up, so they disconnect through this
+  const disconnectRef = useRef<() => string>(() => "");
 
   const connectToDeepgram = async () => {
     try {
       setError(null);
       setRealtimeTranscript("");
+      setInterimTranscript("");
+      transcriptRef.current = { final: "", interim: "" };
+      // Before the microphone, so a refused session doesn't leave it on
+      const sessionKey = await requestSessionKey();
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      audioRef.current = new MediaRecorder(stream);
-
-      const apiKey = await getApiKey();
+      const recorder = new MediaRecorder(stream);
+      audioRef.current = recorder;
 
       console.log("Opening WebSocket connection...");
-      const socket = new WebSocket("wss://api.deepgram.com/v1/listen", ["token", apiKey]);
+      const socket = openSocket(sessionKey);
 
       socket.onopen = () => {
         setConnectionState(SOCKET_STATES.open);
         console.log("WebSocket connection opened");
-        audioRef.current!.addEventListener("dataavailable", (event) => {
+        recorder.addEventListener("dataavailable", (event) => {
           if (event.data.size > 0 && socket.readyState === WebSocket.OPEN) {
             socket.send(event.data);
           }
         });
 
-        audioRef.current!.start(250);
+        recorder.start(250);
       };
 
       socket.onmessage = (event) => {
         const data = JSON.parse(event.data);
         if (data.channel && data.channel.alternatives && data.channel.alternatives[0]) {
           const newTranscript = data.channel.alternatives[0].transcript;
-          setRealtimeTranscript((prev) => prev + " " + newTranscript);
+          // An interim result is replaced by the next one for the same audio, until one is final
+          if (!data.is_final) {
+            transcriptRef.current.interim = newTranscript;
+            setInterimTranscript(newTranscript);
+            return;
+          }
+          transcriptRef.current.interim = "";
+          setInterimTranscript("");
+          if (newTranscript) {
+            transcriptRef.current.final += " " + newTranscript;
+            setRealtimeTranscript((prev) => prev + " " + newTranscript);
+          }
         }
       };
 
       socket.onerror = (error) => {
         console.error("WebSocket error:", error);
         setError("Error connecting to Deepgram. Please try again.");
-        disconnectFromDeepgram();
+        disconnectRef.current();
       };
 
       socket.onclose = (event) => {
@@ -81,25 +120,34 @@ const DeepgramContextProvider: FunctionComponent<DeepgramContextProviderProps> =
         console.log("WebSocket connection closed:", event.code, event.reason);
       };
 
-      setConnection(socket);
+      connectionRef.current = socket;
+      return true;
     } catch (error) {
       console.error("Error starting voice recognition:", error);
       setError(error instanceof Error ? error.message : "An unknown error occurred");
       setConnectionState(SOCKET_STATES.closed);
+      return false;
     }
   };
 
   const disconnectFromDeepgram = () => {
-    if (connection) {
-      connection.close();
-      setConnection(null);
+    if (connectionRef.current) {
+      connectionRef.current.close();
+      connectionRef.current = null;
     }
     if (audioRef.current) {
-      audioRef.current.stop();
+      if (audioRef.current.state !== "inactive") audioRef.current.stop();
+      // Releases the microphone, so the browser stops showing it in use
+      audioRef.current.stream.getTracks().forEach((track) => track.stop());
+      audioRef.current = null;
     }
-    setRealtimeTranscript("");
+    // The transcript stays up until the next session, so it can still be read and saved
+    const { final, interim } = transcriptRef.current;
+    setInterimTranscript("");
     setConnectionState(SOCKET_STATES.closed);
+    return `${final} ${interim}`.trim();
   };
+  disconnectRef.current = disconnectFromDeepgram;
 
   return (
     <DeepgramContext.Provider
@@ -108,6 +156,7 @@ const DeepgramContextProvider: FunctionComponent<DeepgramContextProviderProps> =
         disconnectFromDeepgram,
         connectionState,
         realtimeTranscript,
+        interimTranscript,
         error,
       }}
     >
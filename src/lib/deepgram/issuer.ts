@@ -0,0 +1,70 @@
+import { createClient } from "@deepgram/sdk";
+
+// Server-side only: mints the keys browsers use to stream audio to Deepgram.
+//
+//   DEEPGRAM_API_KEY      a key allowed to create keys (the "keys:write" scope)
+//   DEEPGRAM_PROJECT_ID   the project new keys belong to
+//   DEEPGRAM_ISSUER       "deepgram" or "local"; without it, Deepgram when both of the
+//                         above are set, otherwise the local stand-in outside production
+
+export type DeepgramIssuerName = "deepgram" | "local";
+
+export type IssuedKey = {
+  key: string;
+  keyId: string;
+  scopes: string[];
+  expiresAt: string; // ISO timestamp
+};
+
+// Long enough to open the socket; a connection stays open after its key expires
+export const KEY_TTL_SECONDS = 60;
+
+// Streaming transcription needs nothing more
+const KEY_SCOPES = ["usage:write"];
+
+type DeepgramIssuer = {
+  name: DeepgramIssuerName;
+  issue: (userId: string) => Promise<IssuedKey>;
+};
+
+const expiresAt = () => new Date(Date.now() + KEY_TTL_SECONDS * 1000).toISOString();
+
+const deepgramIssuer: DeepgramIssuer = {
+  name: "deepgram",
+  issue: async userId => {
+    const deepgram = createClient(process.env.DEEPGRAM_API_KEY);
+    const { result, error } = await deepgram.manage.createProjectKey(process.env.DEEPGRAM_PROJECT_ID as string, {
+      comment: `Recording session for ${userId}`,
+      scopes: KEY_SCOPES,
+      tags: [`user:${userId}`],
+      time_to_live_in_seconds: KEY_TTL_SECONDS,
+    });
+    if (error) throw error;
+    return {
+      key: result.key,
+      keyId: result.api_key_id,
+      scopes: result.scopes,
+      expiresAt: result.expiration_date ?? expiresAt(),
+    };
+  },
+};
+
+// Hands out made-up keys without calling Deepgram. The browser recognises the issuer and
+// transcribes with a stand-in socket instead (see createLocalSocket).
+const localIssuer: DeepgramIssuer = {
+  name: "local",
+  issue: async () => {
+    const keyId = crypto.randomUUID();
+    return { key: `local-${keyId}`, keyId, scopes: KEY_SCOPES, expiresAt: expiresAt() };
+  },
+};
+
+// The configured issuer, or null when there's none (production without Deepgram credentials)
+export function resolveIssuer(): DeepgramIssuer | null {
+  const hasDeepgram = Boolean(process.env.DEEPGRAM_API_KEY && process.env.DEEPGRAM_PROJECT_ID);
+  const requested = process.env.DEEPGRAM_ISSUER;
+  if (requested === "deepgram") return hasDeepgram ? deepgramIssuer : null;
+  if (requested === "local") return localIssuer;
+  if (hasDeepgram) return deepgramIssuer;
+  return process.env.NODE_ENV === "production" ? null : localIssuer;
+}
@@ -0,0 +1,70 @@
+// The parts of a WebSocket the Deepgram context uses, so it can run on either a real
+// socket or the local stand-in below
+export interface TranscriptionSocket {
+  readonly readyState: number;
+  onopen: ((event: Event) => void) | null;
+  onmessage: ((event: MessageEvent) => void) | null;
+  onerror: ((event: Event) => void) | null;
+  onclose: ((event: CloseEvent) => void) | null;
+  send(data: Blob): void;
+  close(): void;
+}
+
+// Some start with a dictation command (see lib/dictation), so it can be tried locally too
+const phrases = [
+  "New heading Local transcription",
+  "This is the local transcription stand-in.",
+  "New bullet Each phrase arrives while audio is being sent.",
+  "New bullet Set the Deepgram credentials to transcribe real speech.",
+];
+
+// How often a phrase is "recognised" while audio keeps arriving
+const PHRASE_INTERVAL_MS = 1500;
+
+// Stands in for Deepgram's live transcription socket when the server issued a local key:
+// it accepts audio and answers with canned phrases in Deepgram's message format, so
+// recording can be tried end to end without a Deepgram account.
+export function createLocalSocket(): TranscriptionSocket {
+  let receivedAudio = false;
+  let next = 0;
+  let timer: ReturnType<typeof setInterval> | undefined;
+
+  const socket: TranscriptionSocket & { readyState: number } = {
+    readyState: WebSocket.CONNECTING,
+    onopen: null,
+    onmessage: null,
+    onerror: null,
+    onclose: null,
+    send: () => {
+      receivedAudio = true;
+    },
+    close: () => {
+      if (socket.readyState === WebSocket.CLOSED) return;
+      clearInterval(timer);
+      socket.readyState = WebSocket.CLOSED;
+      socket.onclose?.(new CloseEvent("close", { code: 1000, reason: "Closed by the client", wasClean: true }));
+    },
+  };
+
+  setTimeout(() => {
+    if (socket.readyState !== WebSocket.CONNECTING) return;
+    socket.readyState = WebSocket.OPEN;
+    socket.onopen?.(new Event("open"));
+    const emit = (transcript: string, isFinal: boolean) => {
+      if (socket.readyState !== WebSocket.OPEN) return;
+      const data = JSON.stringify({ channel: { alternatives: [{ transcript }] }, is_final: isFinal });
+      socket.onmessage?.(new MessageEvent("message", { data }));
+    };
+    timer = setInterval(() => {
+      if (!receivedAudio) return;
+      receivedAudio = false;
+      // Half the phrase as an interim result first, like Deepgram does while someone speaks
+      const transcript = phrases[next++ % phrases.length];
+      const words = transcript.split(" ");
+      emit(words.slice(0, Math.ceil(words.length / 2)).join(" "), false);
+      setTimeout(() => emit(transcript, true), PHRASE_INTERVAL_MS / 2);
+    }, PHRASE_INTERVAL_MS);
+  }, 100);
+
+  return socket;
+}
@@ -0,0 +1,108 @@
+// Turns dictated speech into edits of a markdown document. Spoken commands become
+// markdown structure; everything else is inserted as text at the cursor.
+
+export type DictationCommand = "heading" | "bullet" | "paragraph" | "undo";
+
+export type DictationStep = { type: "text"; text: string } | { type: "command"; command: DictationCommand };
+
+// One insertion made by dictation, so "undo that" can take it back
+export type DictationEdit = { start: number; inserted: string };
+
+export type DictationState = {
+  value: string;
+  cursor: number;
+  edits: DictationEdit[]; // most recent last
+};
+
+export const dictationPhrases: Record<DictationCommand, string> = {
+  heading: "new heading",
+  bullet: "new bullet",
+  paragraph: "new paragraph",
+  undo: "undo that",
+};
+
+const commandsByPhrase = new Map(
+  (Object.entries(dictationPhrases) as [DictationCommand, string][]).map(([command, phrase]) => [phrase, command])
+);
+
+// Transcription may punctuate or capitalise a command ("New heading.") like any other words
+const commandPattern = new RegExp(
+  `\\b(${Object.values(dictationPhrases).map(phrase => phrase.replace(" ", "\\s+")).join("|")})\\b[.,;:!?]*`,
+  "gi"
+);
+
+export function parseDictation(transcript: string): DictationStep[] {
+  const steps: DictationStep[] = [];
+  const addText = (text: string) => {
+    const trimmed = text.trim();
+    if (trimmed) steps.push({ type: "text", text: trimmed });
+  };
+  let last = 0;
+  for (const match of Array.from(transcript.matchAll(commandPattern))) {
+    // A comma or colon leading into a command belongs to it, not to the text
+    addText(transcript.slice(last, match.index).replace(/[,;:]\s*$/, ""));
+    const phrase = match[1].toLowerCase().replace(/\s+/g, " ");
+    steps.push({ type: "command", command: commandsByPhrase.get(phrase)! });
+    last = match.index! + match[0].length;
+  }
+  addText(transcript.slice(last).replace(/^[.,;:!?]+/, ""));
+  return steps;
+}
+
+// What has to come before a block so it starts on a new line, or after a blank line
+const lineBreakBefore = (before: string, blankLine: boolean) => {
+  if (before === "" || before.endsWith("\n\n")) return "";
+  if (before.endsWith("\n")) return blankLine ? "\n" : "";
+  return blankLine ? "\n\n" : "\n";
+};
+
+const blockInsertions: Record<Exclude<DictationCommand, "undo">, (before: string) => string> = {
+  heading: before => lineBreakBefore(before, true) + "## ",
+  bullet: before => lineBreakBefore(before, false) + "- ",
+  paragraph: before => lineBreakBefore(before, true),
+};
+
+// At the start of the document, a line, a heading or list item, or a sentence
+const startsSentence = (before: string) => /(^|[.!?\n]|(^|\n)(#{1,6}|[-*+]|\d+\.))[ \t]*$/.test(before);
+
+function textInsertion(before: string, after: string, text: string) {
+  const words = startsSentence(before) ? text.charAt(0).toUpperCase() + text.slice(1) : text;
+  const spaceBefore = before !== "" && !/\s$/.test(before) && !/^[.,;:!?]/.test(text) ? " " : "";
+  const spaceAfter = after !== "" && !/^\s/.test(after) ? " " : "";
+  return spaceBefore + words + spaceAfter;
+}
+
+function insert(state: DictationState, inserted: string): DictationState {
+  if (!inserted) return state;
+  const { value, cursor, edits } = state;
+  return {
+    value: value.slice(0, cursor) + inserted + value.slice(cursor),
+    cursor: cursor + inserted.length,
+    edits: [...edits, { start: cursor, inserted }],
+  };
+}
+
+// Takes back the last dictated insertion, as long as it hasn't been edited by hand since
+function undo(state: DictationState): DictationState {
+  const edit = state.edits[state.edits.length - 1];
+  if (!edit) return state;
+  const edits = state.edits.slice(0, -1);
+  const end = edit.start + edit.inserted.length;
+  if (state.value.slice(edit.start, end) !== edit.inserted) return { ...state, edits };
+  return {
+    value: state.value.slice(0, edit.start) + state.value.slice(end),
+    cursor: edit.start,
+    edits,
+  };
+}
+
+export function applyDictation(state: DictationState, steps: DictationStep[]): DictationState {
+  return steps.reduce((current, step) => {
+    const before = current.value.slice(0, current.cursor);
+    if (step.type === "text") {
+      return insert(current, textInsertion(before, current.value.slice(current.cursor), step.text));
+    }
+    if (step.command === "undo") return undo(current);
+    return insert(current, blockInsertions[step.command](before));
+  }, state);
+}
@@ -0,0 +1,9 @@
+// A caught error's message for showing to the user, or `fallback` when it has none.
+// Supabase queries fail with plain objects that carry a message rather than Errors.
+export function errorMessage(error: unknown, fallback: string): string {
+  let message = "";
+  if (error instanceof Error) message = error.message;
+  else if (typeof error === "string") message = error;
+  else if (typeof (error as { message?: unknown })?.message === "string") message = (error as { message: string }).message;
+  return message || fallback;
+}
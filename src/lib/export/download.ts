@@ -0,0 +1,19 @@
+// Saves generated content as a file through a temporary object URL
+export function downloadFile(filename: string, content: BlobPart, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoked on the next tick so the download has started before the URL goes away
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export const fileSlug = (title: string) =>
+  title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "report";
+
+// File name for a section's exported assets, e.g. "2-1-sampling"
+export const sectionFileName = (number: string, heading: string) =>
+  `${number.replace(/\./g, "-")}-${fileSlug(heading)}`;
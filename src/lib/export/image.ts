@@ -0,0 +1,31 @@
+// Draws SVG markup onto a canvas and returns it as a PNG. The SVG's viewBox sets the
+// size, times `scale` for a sharper image; the background is white rather than transparent.
+export async function svgToPng(svg: string, scale: number = 2): Promise<Blob> {
+  // Parsed as HTML, since Mermaid's HTML labels aren't always well-formed XML; serializing
+  // it again below produces XML an <img> accepts
+  const root = new DOMParser().parseFromString(svg, "text/html").querySelector("svg");
+  if (!root) throw new Error("There is no SVG to convert.");
+  const [, , viewWidth, viewHeight] = (root.getAttribute("viewBox") ?? "").split(/[\s,]+/).map(Number);
+  const width = Math.ceil((viewWidth || Number(root.getAttribute("width")) || 800) * scale);
+  const height = Math.ceil((viewHeight || Number(root.getAttribute("height")) || 600) * scale);
+  // Mermaid sizes its output to the container ("100%" plus a max-width), which an image doesn't have
+  root.setAttribute("width", String(width));
+  root.setAttribute("height", String(height));
+  root.style.removeProperty("max-width");
+
+  const image = new Image();
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(new XMLSerializer().serializeToString(root))}`;
+  await image.decode();
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d")!;
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, width, height);
+  context.drawImage(image, 0, 0, width, height);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("The browser couldn't encode the PNG."))), "image/png");
+  });
+}
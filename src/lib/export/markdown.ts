@@ -0,0 +1,79 @@
+import { renderChart } from "../chart/render";
+import { parseChartSpec } from "../chart/spec";
+import {
+  buildOutline,
+  EXPORTED_ASSET_DIR,
+  flattenOutline,
+  sectionLayout,
+  type Section,
+} from "../markdown/sections";
+import { sectionFileName } from "./download";
+
+export type MarkdownExport = {
+  markdown: string;
+  assets: Record<string, string>; // HTML files by path relative to the report
+};
+
+// A backtick fence longer than any backtick run in the code, so the code can't close it
+function fence(lang: string, code: string): string {
+  const longest = Math.max(2, ...(code.match(/`+/g) ?? []).map(run => run.length));
+  const ticks = "`".repeat(longest + 1);
+  return `${ticks}${lang}\n${code.replace(/\n$/, "")}\n${ticks}`;
+}
+
+const linkText = (text: string) => text.replace(/[[\]\\]/g, "\\$&");
+
+// Writes the report back out with each section's canvases under its heading: diagrams as
+// ```mermaid fences, animations and charts as links to HTML files in EXPORTED_ASSET_DIR.
+// The rest of the markdown is kept byte for byte. Canvases that an earlier export (or
+// import) put in the markdown are replaced rather than repeated, and parsing the result
+// with splitMarkdownIntoSections restores the diagrams.
+export function buildMarkdownExport(markdown: string, canvasDepth: number, sections: Section[]): MarkdownExport {
+  const byId = new Map(sections.map(section => [section.id, section]));
+  const numbers = new Map(flattenOutline(buildOutline(sections)).map(node => [node.section.id, node.number]));
+  const assets: Record<string, string> = {};
+  const edits: { start: number; end: number; text: string }[] = [];
+
+  for (const { section: parsed, contentStart, cuts } of sectionLayout(markdown, canvasDepth)) {
+    for (const [start, end] of cuts) {
+      // The blank lines before a removed block go with it, so no gap is left behind
+      // (at the top of the file, the ones after it)
+      const before = /\s*$/.exec(markdown.slice(0, start))![0].length;
+      const after = /^\s*/.exec(markdown.slice(end))![0].length;
+      edits.push(before < start ? { start: start - before, end, text: "" } : { start, end: end + after, text: "" });
+    }
+
+    const section = byId.get(parsed.id);
+    if (!section) continue;
+    const name = sectionFileName(numbers.get(section.id) ?? "", section.heading);
+    const blocks: string[] = [];
+    if (section.mermaidCode) blocks.push(fence("mermaid", section.mermaidCode));
+    if (section.code) {
+      const path = `${EXPORTED_ASSET_DIR}/${name}.html`;
+      assets[path] = section.code;
+      blocks.push(`[Animation: ${linkText(section.heading)}](${path})`);
+    }
+    const chart = section.chartSpec ? parseChartSpec(section.chartSpec) : undefined;
+    if (chart?.ok) {
+      const path = `${EXPORTED_ASSET_DIR}/${name}-chart.html`;
+      assets[path] = renderChart(chart.spec);
+      blocks.push(`[Chart: ${linkText(section.heading)}](${path})`);
+    }
+    if (blocks.length === 0) continue;
+
+    // Under a heading the block starts a new paragraph; ahead of an introduction it needs one after it
+    const before = contentStart > 0 ? "\n\n" : "";
+    const after = contentStart < markdown.length && markdown[contentStart] !== "\n" ? "\n\n" : "";
+    edits.push({ start: contentStart, end: contentStart, text: `${before}${blocks.join("\n\n")}${after}` });
+  }
+
+  edits.sort((a, b) => a.start - b.start || a.end - b.end);
+  let output = "";
+  let from = 0;
+  for (const edit of edits) {
+    output += markdown.slice(from, edit.start) + edit.text;
+    from = Math.max(from, edit.end);
+  }
+  output += markdown.slice(from);
+  return { markdown: output.endsWith("\n") ? output : `${output}\n`, assets };
+}
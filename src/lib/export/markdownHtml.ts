@@ -0,0 +1,30 @@
+import type { Nodes, Root } from "mdast";
+import rehypeStringify from "rehype-stringify";
+import remarkFrontmatter from "remark-frontmatter";
+import remarkGfm from "remark-gfm";
+import remarkParse from "remark-parse";
+import remarkRehype from "remark-rehype";
+import { unified } from "unified";
+
+// http(s), mailto and relative URLs; anything else (javascript:, data:) is dropped
+const safeUrl = /^(?:https?:|mailto:|[^:/?#]*(?:[/?#]|$))/i;
+
+function dropUnsafeUrls(node: Nodes) {
+  if ((node.type === "link" || node.type === "image" || node.type === "definition") && !safeUrl.test(node.url)) {
+    node.url = "";
+  }
+  if ("children" in node) node.children.forEach(dropUnsafeUrls);
+}
+
+// Raw HTML and front-matter in the markdown are dropped rather than passed through, and
+// so are links that would run script, so exported files and the presenter only contain
+// markup the converter produced itself
+const htmlProcessor = unified()
+  .use(remarkParse)
+  .use(remarkGfm)
+  .use(remarkFrontmatter, ["yaml", "toml"])
+  .use(() => (tree: Root) => dropUnsafeUrls(tree))
+  .use(remarkRehype)
+  .use(rehypeStringify);
+
+export const markdownToHtml = (markdown: string) => String(htmlProcessor.processSync(markdown));
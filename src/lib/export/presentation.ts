@@ -0,0 +1,131 @@
+import { escapeHtml } from "../animation/html";
+import { withCanvasPolicy } from "../canvas/policy";
+
+export type SlideCanvas =
+  | { kind: "svg"; svg: string } // a diagram rendered ahead of time
+  | { kind: "frame"; html: string }; // an animation or chart document, run in a sandboxed frame
+
+export type PresentationSlide = {
+  number: string; // outline number, e.g. "2.1"
+  heading: string;
+  level: number;
+  bodyHtml: string; // already converted from markdown
+  canvas?: SlideCanvas;
+};
+
+function renderCanvas(canvas: SlideCanvas): string {
+  if (canvas.kind === "svg") return `<div class="canvas diagram">${canvas.svg}</div>`;
+  // srcdoc keeps the file self-contained; no network, storage or same-origin access
+  return `<div class="canvas"><iframe sandbox="allow-scripts" srcdoc="${escapeHtml(withCanvasPolicy(canvas.html))}"></iframe></div>`;
+}
+
+function renderSlide(slide: PresentationSlide, index: number): string {
+  const layout = slide.canvas ? (slide.bodyHtml.trim() ? "split" : "canvas-only") : "text-only";
+  return `
+  <section class="slide ${layout}" data-index="${index}" aria-label="${escapeHtml(`${slide.number}. ${slide.heading}`)}">
+    <header><span class="number">${escapeHtml(slide.number)}</span><h2 class="level-${slide.level}">${escapeHtml(slide.heading)}</h2></header>
+    <div class="content">
+      ${slide.canvas ? renderCanvas(slide.canvas) : ""}
+      ${slide.bodyHtml.trim() ? `<div class="body">${slide.bodyHtml}</div>` : ""}
+    </div>
+  </section>`;
+}
+
+// A single HTML file that presents the report offline: a title slide, then one slide
+// per section. Arrow keys, Page Up/Down, Space, Home and End move between slides, and
+// the URL hash remembers the current one.
+export function buildPresentationHtml({ title, slides, exportedAt }: {
+  title: string;
+  slides: PresentationSlide[];
+  exportedAt: string;
+}): string {
+  return `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <title>${escapeHtml(title)}</title>
+  <style>
+    * { box-sizing: border-box; }
+    html, body { margin: 0; height: 100%; background: #0f172a; font-family: system-ui, -apple-system, sans-serif; color: #0f172a; overflow: hidden; }
+    .deck { position: fixed; inset: 0; display: grid; place-items: center; }
+    .slide { display: none; width: min(100vw, calc(100vh * 16 / 9)); height: min(100vh, calc(100vw * 9 / 16)); background: white; padding: 3vh 4vw; flex-direction: column; gap: 2vh; overflow: hidden; }
+    .slide.active { display: flex; }
+    .slide header { display: flex; align-items: baseline; gap: 1rem; }
+    .slide .number { color: #64748b; font-weight: 600; font-size: 2.2vh; }
+    .slide h1 { font-size: 6vh; margin: 0; }
+    .slide h2 { font-size: 4.2vh; margin: 0; }
+    .slide h2.level-3, .slide h2.level-4, .slide h2.level-5, .slide h2.level-6 { font-size: 3.4vh; }
+    .content { flex: 1; min-height: 0; display: flex; gap: 3vw; }
+    .split .canvas { flex: 0 0 62%; }
+    .canvas-only .canvas, .text-only .body { flex: 1; }
+    .canvas { aspect-ratio: 16 / 9; max-height: 100%; align-self: center; border-radius: 8px; overflow: hidden; background: #f8fafc; border: 1px solid #e2e8f0; }
+    /* Clicks would move keyboard focus into the frame, where the arrow keys no longer reach the deck */
+    .canvas iframe { width: 100%; height: 100%; border: 0; pointer-events: none; }
+    .diagram { display: grid; place-items: center; padding: 2vh; }
+    .diagram svg { max-width: 100%; max-height: 100%; height: auto; }
+    .body { flex: 1; min-width: 0; overflow-y: auto; font-size: 2.1vh; line-height: 1.5; color: #334155; }
+    .body table { border-collapse: collapse; }
+    .body th, .body td { border: 1px solid #cbd5e1; padding: 0.3em 0.6em; }
+    .body img { max-width: 100%; }
+    .body pre { background: #f1f5f9; padding: 1em; overflow-x: auto; }
+    .title-slide { justify-content: center; align-items: flex-start; background: linear-gradient(135deg, #1e293b, #334155); color: white; }
+    .title-slide p { color: #cbd5e1; font-size: 2.4vh; }
+    .controls { position: fixed; right: 16px; bottom: 12px; display: flex; align-items: center; gap: 8px; color: #e2e8f0; font-size: 13px; }
+    .controls button { background: rgba(255,255,255,0.12); color: inherit; border: 0; border-radius: 6px; padding: 6px 10px; cursor: pointer; }
+    .progress { position: fixed; left: 0; bottom: 0; height: 4px; background: #38bdf8; transition: width 0.2s; }
+    @media print {
+      html, body { overflow: visible; background: white; }
+      .deck { position: static; display: block; }
+      .slide { display: flex; page-break-after: always; width: 100%; height: auto; aspect-ratio: 16 / 9; }
+      .controls, .progress { display: none; }
+    }
+  </style>
+</head>
+<body>
+  <main class="deck">
+  <section class="slide title-slide active" data-index="0" aria-label="Title">
+    <h1>${escapeHtml(title)}</h1>
+    <p>${slides.length} section${slides.length === 1 ? "" : "s"} · exported ${escapeHtml(exportedAt)}</p>
+  </section>${slides.map((slide, i) => renderSlide(slide, i + 1)).join("")}
+  </main>
+  <div class="progress"></div>
+  <nav class="controls">
+    <button data-step="-1" aria-label="Previous slide">&larr;</button>
+    <span class="counter"></span>
+    <button data-step="1" aria-label="Next slide">&rarr;</button>
+  </nav>
+  <script>
+    (function () {
+      var slides = document.querySelectorAll('.slide');
+      var counter = document.querySelector('.counter');
+      var progress = document.querySelector('.progress');
+      var current = 0;
+
+      function show(index) {
+        current = Math.max(0, Math.min(slides.length - 1, index));
+        slides.forEach(function (slide, i) { slide.classList.toggle('active', i === current); });
+        counter.textContent = (current + 1) + ' / ' + slides.length;
+        progress.style.width = ((current + 1) / slides.length * 100) + '%';
+        if (location.hash !== '#' + (current + 1)) history.replaceState(null, '', '#' + (current + 1));
+      }
+
+      document.addEventListener('keydown', function (e) {
+        if (e.key === 'ArrowRight' || e.key === 'ArrowDown' || e.key === 'PageDown' || e.key === ' ') show(current + 1);
+        else if (e.key === 'ArrowLeft' || e.key === 'ArrowUp' || e.key === 'PageUp') show(current - 1);
+        else if (e.key === 'Home') show(0);
+        else if (e.key === 'End') show(slides.length - 1);
+        else return;
+        e.preventDefault();
+      });
+      document.querySelectorAll('.controls button').forEach(function (button) {
+        button.addEventListener('click', function () { show(current + Number(button.dataset.step)); });
+      });
+      window.addEventListener('hashchange', function () { show(Number(location.hash.slice(1)) - 1 || 0); });
+
+      show(Number(location.hash.slice(1)) - 1 || 0);
+    })();
+  </script>
+</body>
+</html>`;
+}
@@ -0,0 +1,47 @@
+import { format } from "date-fns";
+import type { OutlineNode } from "../markdown/sections";
+import { shownCanvasKind } from "../canvas/srcDoc";
+import { renderChart } from "../chart/render";
+import { parseChartSpec } from "../chart/spec";
+import { renderMermaid } from "../mermaid/render";
+import { markdownToHtml } from "./markdownHtml";
+import { buildPresentationHtml, type PresentationSlide, type SlideCanvas } from "./presentation";
+
+async function slideCanvas({ section }: OutlineNode): Promise<SlideCanvas | undefined> {
+  const kind = shownCanvasKind({
+    mermaidCode: section.mermaidCode,
+    chartSpec: section.chartSpec,
+    animationCode: section.code,
+    show: section.canvasKind,
+  });
+
+  if (kind === "mermaid") {
+    const diagram = await renderMermaid(section.mermaidCode!);
+    if (diagram.ok) return { kind: "svg", svg: diagram.svg };
+    // A diagram that doesn't parse is left out rather than failing the whole export
+    console.error(`Error rendering diagram for "${section.heading}":`, diagram.error.message);
+    return undefined;
+  }
+  if (kind === "chart") {
+    const check = parseChartSpec(section.chartSpec!);
+    return check.ok ? { kind: "frame", html: renderChart(check.spec) } : undefined;
+  }
+  if (kind === "code") return { kind: "frame", html: section.code! };
+  return undefined;
+}
+
+// Builds the offline presentation for a report, in outline order. Diagrams are
+// rendered to SVG here, so the file needs neither Mermaid nor a network connection.
+export async function buildReportPresentation(title: string, sections: OutlineNode[]): Promise<string> {
+  const slides: PresentationSlide[] = [];
+  for (const node of sections) {
+    slides.push({
+      number: node.number,
+      heading: node.section.heading,
+      level: node.section.level,
+      bodyHtml: markdownToHtml(node.section.body),
+      canvas: await slideCanvas(node),
+    });
+  }
+  return buildPresentationHtml({ title, slides, exportedAt: format(new Date(), "PPP") });
+}
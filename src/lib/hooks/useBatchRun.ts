@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { isAbortError, runQueue, type BatchStatus } from "../batch/queue";
+import { errorMessage } from "../errors";
+
+export type BatchProgress = { total: number; done: number; failed: number };
+
+// Status of a batch over section IDs. One batch runs at a time; starting a new one
+// replaces the previous statuses. Cancelling aborts the in-flight requests through
+// the signal handed to the worker, and drops the sections that never started.
+export const useBatchRun = () => {
+  const [statuses, setStatuses] = useState<Record<string, BatchStatus>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [running, setRunning] = useState(false);
+  const controller = useRef<AbortController | null>(null);
+
+  // Leaving the editor stops the batch
+  useEffect(() => () => controller.current?.abort(), []);
+
+  const start = useCallback(async (
+    sectionIds: string[],
+    worker: (sectionId: string, signal: AbortSignal) => Promise<void>,
+    concurrency: number
+  ) => {
+    if (controller.current) return;
+    const abort = new AbortController();
+    controller.current = abort;
+    setStatuses({});
+    setErrors({});
+    setRunning(true);
+
+    await runQueue(sectionIds, worker, {
+      concurrency,
+      signal: abort.signal,
+      onStatus: (sectionId, status, error) => {
+        setStatuses(prev => ({ ...prev, [sectionId]: status }));
+        if (error) {
+          const message = isAbortError(error) ? "Cancelled" : errorMessage(error, "Generation failed");
+          setErrors(prev => ({ ...prev, [sectionId]: message }));
+        }
+      },
+    });
+
+    if (abort.signal.aborted) {
+      setStatuses(prev => Object.fromEntries(Object.entries(prev).filter(([, status]) => status !== "queued")));
+    }
+    controller.current = null;
+    setRunning(false);
+  }, []);
+
+  const cancel = useCallback(() => controller.current?.abort(), []);
+
+  const values = Object.values(statuses);
+  const progress: BatchProgress = {
+    total: values.length,
+    done: values.filter(s => s === "done").length,
+    failed: values.filter(s => s === "failed").length,
+  };
+
+  return { statuses, errors, running, progress, start, cancel };
+};
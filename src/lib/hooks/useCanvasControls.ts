@@ -0,0 +1,93 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { CANVAS_CHANNEL, isCanvasEvent, type CanvasCommand, type ConsoleLevel } from "../canvas/protocol";
+
+export type CanvasPlayback = {
+  ready: boolean;
+  playing: boolean;
+  time: number; // ms
+  duration: number | null; // ms, when the canvas's animations end
+};
+
+export type CanvasError = { message: string; line?: number; column?: number };
+export type CanvasLog = { level: ConsoleLevel; text: string };
+
+const MAX_LOGS = 100;
+const initialPlayback: CanvasPlayback = { ready: false, playing: true, time: 0, duration: null };
+
+// Playback controls, script errors and console output for a canvas frame running the
+// canvas runtime (see withCanvasRuntime). Put `frameRef` and `frameKey` on the iframe:
+// restarting remounts it, and so does seeking backwards, which then plays forward to
+// the requested time. Everything resets when `srcDoc` changes.
+export function useCanvasControls(srcDoc: string) {
+  const frameRef = useRef<HTMLIFrameElement>(null);
+  const [frameKey, setFrameKey] = useState(0);
+  const [playback, setPlayback] = useState(initialPlayback);
+  const [errors, setErrors] = useState<CanvasError[]>([]);
+  const [logs, setLogs] = useState<CanvasLog[]>([]);
+  const [loadedDoc, setLoadedDoc] = useState(srcDoc);
+  // Sent once the remounted frame is ready
+  const pendingSeek = useRef<{ time: number; playing: boolean } | null>(null);
+
+  // A new document reloads the frame by itself
+  if (loadedDoc !== srcDoc) {
+    setLoadedDoc(srcDoc);
+    setPlayback(initialPlayback);
+    setErrors([]);
+    setLogs([]);
+  }
+
+  const send = useCallback((command: CanvasCommand) => {
+    frameRef.current?.contentWindow?.postMessage({ ...command, channel: CANVAS_CHANNEL }, "*");
+  }, []);
+
+  const remount = useCallback(() => {
+    setPlayback(initialPlayback);
+    setErrors([]);
+    setLogs([]);
+    setFrameKey(key => key + 1);
+  }, []);
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      // Only this canvas's frame; other canvases on the page post the same messages
+      if (!frameRef.current || event.source !== frameRef.current.contentWindow || !isCanvasEvent(event.data)) return;
+      const data = event.data;
+      if (data.type === "ready") {
+        setPlayback(prev => ({ ...prev, ready: true, duration: data.duration }));
+        const seek = pendingSeek.current;
+        pendingSeek.current = null;
+        if (seek) {
+          if (!seek.playing) send({ type: "pause" });
+          send({ type: "seek", time: seek.time });
+        }
+      } else if (data.type === "state") {
+        setPlayback(prev => ({ ...prev, playing: data.playing, time: data.time }));
+      } else if (data.type === "error") {
+        setErrors(prev => [...prev, { message: data.message, line: data.line, column: data.column }]);
+      } else if (data.type === "console") {
+        setLogs(prev => [...prev.slice(-(MAX_LOGS - 1)), { level: data.level, text: data.text }]);
+      }
+    };
+    window.addEventListener("message", handleMessage);
+    return () => window.removeEventListener("message", handleMessage);
+  }, [send]);
+
+  const play = useCallback(() => send({ type: "play" }), [send]);
+  const pause = useCallback(() => send({ type: "pause" }), [send]);
+
+  const restart = useCallback(() => {
+    pendingSeek.current = null;
+    remount();
+  }, [remount]);
+
+  const seek = useCallback((time: number) => {
+    if (time >= playback.time) {
+      send({ type: "seek", time });
+      return;
+    }
+    pendingSeek.current = { time, playing: playback.playing };
+    remount();
+  }, [send, remount, playback.time, playback.playing]);
+
+  return { frameRef, frameKey, playback, errors, logs, play, pause, restart, seek };
+}
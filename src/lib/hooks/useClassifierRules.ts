@@ -0,0 +1,28 @@
+import { useCallback, useEffect, useState } from "react";
+import { DEFAULT_CLASSIFIER_RULES, mergeClassifierRules, type ClassifierRules } from "../classifier/rules";
+import { loadClassifierRules, saveClassifierRules } from "../supabase/workspace";
+
+// The workspace's classifier rules. Until they load (or if loading fails) the defaults
+// apply, so generation never waits on them.
+export const useClassifierRules = (): [ClassifierRules, (overrides: Partial<ClassifierRules>) => Promise<void>] => {
+  const [rules, setRules] = useState<ClassifierRules>(DEFAULT_CLASSIFIER_RULES);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadClassifierRules()
+      .then(loaded => {
+        if (!cancelled) setRules(loaded);
+      })
+      .catch(error => console.error("Error loading classifier rules:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const save = useCallback(async (overrides: Partial<ClassifierRules>) => {
+    await saveClassifierRules(overrides);
+    setRules(mergeClassifierRules(overrides));
+  }, []);
+
+  return [rules, save];
+};
@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from "react";
+import { SOCKET_STATES, useDeepgram } from "../contexts/DeepgramContext";
+import { applyDictation, parseDictation, type DictationEdit } from "../dictation/commands";
+
+// Dictation into a textarea: final transcript results are inserted at the textarea's
+// cursor as they arrive, with spoken commands applied (see dictation/commands.ts). Put
+// `textareaRef` on the textarea that shows `value`. `interim` is what Deepgram hasn't
+// settled on yet, for showing apart from the text.
+export function useDictation(value: string, onChange: (value: string) => void) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const { connectToDeepgram, disconnectFromDeepgram, connectionState, realtimeTranscript, interimTranscript, error } =
+    useDeepgram();
+  const [active, setActive] = useState(false);
+  // Whether the session's errors are dictation's; the session is shared with the recorder
+  const [started, setStarted] = useState(false);
+  // How much of the transcript has been inserted; it only grows during a session
+  const consumed = useRef(0);
+  const edits = useRef<DictationEdit[]>([]);
+  const pendingCursor = useRef<number | null>(null);
+  const opened = useRef(false);
+  const stopRef = useRef<() => void>(() => {});
+
+  useEffect(() => {
+    if (!active) return;
+    if (realtimeTranscript.length < consumed.current) consumed.current = 0;
+    const text = realtimeTranscript.slice(consumed.current);
+    consumed.current = realtimeTranscript.length;
+    if (!text.trim()) return;
+    const next = applyDictation(
+      { value, cursor: textareaRef.current?.selectionStart ?? value.length, edits: edits.current },
+      parseDictation(text)
+    );
+    edits.current = next.edits;
+    pendingCursor.current = next.cursor;
+    onChange(next.value);
+  }, [active, realtimeTranscript, value, onChange]);
+
+  // Setting the value moves the cursor to the end; put it after the dictated text instead
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea || pendingCursor.current === null || textarea.value !== value) return;
+    textarea.setSelectionRange(pendingCursor.current, pendingCursor.current);
+    pendingCursor.current = null;
+  }, [value]);
+
+  // Dictation ends with the connection, whether it failed to open or dropped later
+  useEffect(() => {
+    if (!active) {
+      if (connectionState !== SOCKET_STATES.closed) setStarted(false);
+      return;
+    }
+    if (connectionState === SOCKET_STATES.open) opened.current = true;
+    else if (opened.current || error) setActive(false);
+  }, [active, connectionState, error]);
+
+  const start = useCallback(async () => {
+    consumed.current = 0;
+    edits.current = [];
+    opened.current = false;
+    setActive(true);
+    setStarted(true);
+    if (!(await connectToDeepgram())) setActive(false);
+  }, [connectToDeepgram]);
+
+  const stop = useCallback(() => {
+    setActive(false);
+    disconnectFromDeepgram();
+  }, [disconnectFromDeepgram]);
+
+  // Leaving the editor turns the microphone off
+  stopRef.current = active ? disconnectFromDeepgram : () => {};
+  useEffect(() => () => stopRef.current(), []);
+
+  return {
+    textareaRef,
+    active,
+    listening: active && connectionState === SOCKET_STATES.open,
+    interim: active ? interimTranscript : "",
+    error: started ? error : null,
+    // Recording a voice note has the session
+    busy: !active && connectionState !== SOCKET_STATES.closed,
+    start,
+    stop,
+  };
+}
@@ -0,0 +1,26 @@
+import { useCallback, useEffect, useState } from "react";
+import type { LlmOptions } from "../llm/options";
+
+const STORAGE_KEY = "llm-settings";
+
+// Model settings chosen in the editor, kept in localStorage so they survive reloads.
+// An empty object means "server defaults".
+export const useLlmSettings = (): [LlmOptions, (settings: LlmOptions) => void] => {
+  const [settings, setSettingsState] = useState<LlmOptions>({});
+
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) setSettingsState(JSON.parse(stored));
+    } catch (error) {
+      console.error("Error reading LLM settings:", error);
+    }
+  }, []);
+
+  const setSettings = useCallback((next: LlmOptions) => {
+    setSettingsState(next);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  }, []);
+
+  return [settings, setSettings];
+};
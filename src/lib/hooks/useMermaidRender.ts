@@ -0,0 +1,22 @@
+import { useEffect, useState } from "react";
+import { renderMermaid, type MermaidRender } from "../mermaid/render";
+
+// The rendered diagram (SVG, node list) or its error for a Mermaid source; null while it
+// renders or when there is no source
+export const useMermaidRender = (source: string | undefined): MermaidRender | null => {
+  const [result, setResult] = useState<{ source: string; render: MermaidRender } | null>(null);
+
+  useEffect(() => {
+    if (!source) return;
+    let cancelled = false;
+    renderMermaid(source).then(render => {
+      if (!cancelled) setResult({ source, render });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [source]);
+
+  // A result for an earlier source is never shown against the current one
+  return source && result?.source === source ? result.render : null;
+};
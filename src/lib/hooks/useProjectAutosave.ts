@@ -0,0 +1,106 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useDebouncedValue } from "./useDebouncedValue";
+import { saveProject, saveSections, type Project } from "../supabase/projects";
+import type { Section } from "../markdown/sections";
+
+export type AutosaveStatus = "idle" | "saving" | "saved" | "error";
+
+export type ProjectSnapshot = Pick<Project, "rawMarkdown" | "canvasDepth" | "orphans"> & {
+  sections: Section[];
+};
+
+const AUTOSAVE_DELAY_MS = 1000;
+
+type Keys = { project: string; sections: Map<string, string> };
+
+const snapshotKeys = ({ sections, ...projectFields }: ProjectSnapshot): Keys => ({
+  project: JSON.stringify(projectFields),
+  sections: new Map(sections.map((s, position) => [s.id, JSON.stringify({ ...s, position })])),
+});
+
+// Debounced autosave for an open project. Pass `null` until the project has loaded;
+// the first snapshot after that is treated as already saved. Later snapshots write
+// the project row when its fields change and upsert only the sections that changed.
+// Changes still waiting on the debounce are saved straight away when the editor closes
+// or the page is hidden, and leaving the page while a save is pending asks first.
+export const useProjectAutosave = (projectId: string, snapshot: ProjectSnapshot | null): AutosaveStatus => {
+  const [status, setStatus] = useState<AutosaveStatus>("idle");
+  const debounced = useDebouncedValue(snapshot, AUTOSAVE_DELAY_MS);
+  const latest = useRef(snapshot);
+  latest.current = snapshot;
+  const saved = useRef<Keys | null>(null);
+  const inFlight = useRef(0);
+  // Saves run one after another so an older write never lands after a newer one
+  const queue = useRef<Promise<void>>(Promise.resolve());
+
+  // Null when everything in the snapshot has been saved
+  const unsaved = useCallback((current: ProjectSnapshot) => {
+    if (!saved.current) return null;
+    const keys = snapshotKeys(current);
+    const projectChanged = saved.current.project !== keys.project;
+    const savedSections = saved.current.sections;
+    const changed = current.sections
+      .map((section, position) => ({ section, position }))
+      .filter(({ section }) => savedSections.get(section.id) !== keys.sections.get(section.id));
+    const removedIds = Array.from(savedSections.keys()).filter(id => !keys.sections.has(id));
+    if (!projectChanged && changed.length === 0 && removedIds.length === 0) return null;
+    return { keys, projectChanged, changed, removedIds };
+  }, []);
+
+  const save = useCallback((current: ProjectSnapshot | null) => {
+    const changes = current && unsaved(current);
+    if (!current || !changes) return;
+    const { rawMarkdown, canvasDepth, orphans } = current;
+    const { keys, projectChanged, changed, removedIds } = changes;
+
+    setStatus("saving");
+    inFlight.current++;
+    queue.current = queue.current.then(async () => {
+      try {
+        if (projectChanged) {
+          await saveProject(projectId, { rawMarkdown, canvasDepth, orphans });
+          saved.current = { project: keys.project, sections: saved.current!.sections };
+        }
+        await saveSections(projectId, changed, removedIds);
+        saved.current = { project: saved.current!.project, sections: keys.sections };
+        setStatus("saved");
+      } catch (error) {
+        console.error("Error autosaving project:", error);
+        setStatus("error");
+      } finally {
+        inFlight.current--;
+      }
+    });
+  }, [projectId, unsaved]);
+
+  // The project as loaded is the baseline, before any edit has had time to go through the debounce
+  useEffect(() => {
+    if (snapshot && !saved.current) saved.current = snapshotKeys(snapshot);
+  }, [snapshot]);
+
+  useEffect(() => save(debounced), [save, debounced]);
+
+  useEffect(() => {
+    const flush = () => save(latest.current);
+    const handleVisibility = () => {
+      if (document.visibilityState === "hidden") flush();
+    };
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      if (inFlight.current === 0 && !(latest.current && unsaved(latest.current))) return;
+      event.preventDefault();
+      event.returnValue = "";
+    };
+    document.addEventListener("visibilitychange", handleVisibility);
+    window.addEventListener("pagehide", flush);
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    return () => {
+      document.removeEventListener("visibilitychange", handleVisibility);
+      window.removeEventListener("pagehide", flush);
+      window.removeEventListener("beforeunload", handleBeforeUnload);
+      // Closing the editor (or switching projects) saves what the debounce hasn't yet
+      flush();
+    };
+  }, [save, unsaved]);
+
+  return status;
+};
@@ -0,0 +1,26 @@
+import { useCallback, useEffect, useState } from "react";
+import { DEFAULT_RECORDING, normalizeRecordingSettings, type RecordingSettings } from "../recording/settings";
+
+const STORAGE_KEY = "recording-settings";
+
+// Video export settings, kept in localStorage like the LLM settings
+export const useRecordingSettings = (): [RecordingSettings, (settings: Partial<RecordingSettings>) => void] => {
+  const [settings, setSettingsState] = useState<RecordingSettings>(DEFAULT_RECORDING);
+
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) setSettingsState(normalizeRecordingSettings(JSON.parse(stored)));
+    } catch (error) {
+      console.error("Error reading recording settings:", error);
+    }
+  }, []);
+
+  const setSettings = useCallback((next: Partial<RecordingSettings>) => {
+    const normalized = normalizeRecordingSettings(next);
+    setSettingsState(normalized);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(normalized));
+  }, []);
+
+  return [settings, setSettings];
+};
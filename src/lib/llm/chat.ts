@@ -0,0 +1,127 @@
+import { APICallError, convertToCoreMessages, streamText, type CoreMessage } from "ai";
+import { NextResponse } from "next/server";
+import { NO_PROVIDER_CODE, parseLlmOptions, type LlmOptions } from "./options";
+import { resolveModel } from "./providers";
+import { meterRequest, type RequestUsage } from "../usage/meter";
+
+export const DEFAULT_SYSTEM_PROMPT = "You are a helpful AI assistant";
+
+export const noProviderResponse = (options: LlmOptions) =>
+  NextResponse.json(
+    {
+      error: options.provider ? `The ${options.provider} provider is not configured` : "No LLM provider is configured",
+      code: NO_PROVIDER_CODE,
+    },
+    { status: 503 }
+  );
+
+// Passes a provider's rate limit through as a 429 so clients know to back off and retry
+export function providerErrorResponse(error: unknown) {
+  const status = APICallError.isInstance(error) && error.statusCode === 429 ? 429 : 500;
+  return NextResponse.json({ error: (error as Error).message }, { status });
+}
+
+// Calls `onBreak` if the response's stream fails rather than ending; a provider's
+// connection dropping surfaces that way instead of as an error part
+function onStreamBreak(response: Response, onBreak: (error: unknown) => void): Response {
+  if (!response.body) return response;
+  const reader = response.body.getReader();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) controller.close();
+        else controller.enqueue(value);
+      } catch (error) {
+        onBreak(error);
+        controller.error(error);
+      }
+    },
+    cancel: reason => reader.cancel(reason),
+  });
+  return new Response(body, response);
+}
+
+export const badRequest = (error: string) => NextResponse.json({ error }, { status: 400 });
+
+// The request's JSON object body, or null when it isn't one
+export async function readJsonBody(req: Request): Promise<Record<string, unknown> | null> {
+  try {
+    const body = await req.json();
+    return typeof body === "object" && body !== null && !Array.isArray(body) ? body : null;
+  } catch {
+    return null;
+  }
+}
+
+// Shared body of the chat routes: { messages, system?, provider?, model?, temperature?, maxTokens? }
+// in, AI SDK data stream out. `forced` pins options for the provider-specific routes.
+// Callers must be signed in, and the tokens used are metered once the stream ends, or
+// the request is recorded as failed if the provider errors first.
+export async function handleChatRequest(req: Request, forced: LlmOptions = {}) {
+  const meter = await meterRequest(req, "tokens");
+  if (meter instanceof Response) return meter;
+  // The stream can both report an error and finish; the first outcome is the one kept
+  let recorded = false;
+  const record = (usage: RequestUsage) => {
+    if (recorded) return;
+    recorded = true;
+    return meter.record(usage);
+  };
+
+  const body = await readJsonBody(req);
+  if (!body) {
+    await record({ ok: false });
+    return badRequest("The request body must be a JSON object.");
+  }
+  const { messages, system, ...rest } = body;
+  let coreMessages: CoreMessage[];
+  try {
+    if (!Array.isArray(messages)) throw new Error("missing messages");
+    coreMessages = convertToCoreMessages(messages);
+  } catch {
+    await record({ ok: false });
+    return badRequest("`messages` must be an array of chat messages.");
+  }
+  const options = { ...parseLlmOptions(rest), ...forced };
+
+  const resolved = resolveModel(options);
+  if (!resolved) {
+    await record({ ok: false });
+    return noProviderResponse(options);
+  }
+  const failed = () => record({ provider: resolved.provider, model: resolved.modelId, ok: false });
+
+  try {
+    const result = await streamText({
+      model: resolved.model,
+      messages: coreMessages,
+      system: typeof system === "string" && system.trim() ? system : DEFAULT_SYSTEM_PROMPT,
+      temperature: options.temperature,
+      maxTokens: options.maxTokens,
+      onFinish: ({ usage }) => record({
+        provider: resolved.provider,
+        model: resolved.modelId,
+        inputTokens: usage.promptTokens,
+        outputTokens: usage.completionTokens,
+      }),
+    });
+
+    const response = result.toDataStreamResponse({
+      // Called for an error the provider reports part-way through the stream
+      getErrorMessage: error => {
+        console.error("Error streaming chat:", error);
+        void failed();
+        return "";
+      },
+    });
+    return onStreamBreak(response, error => {
+      console.error("Error streaming chat:", error);
+      void failed();
+    });
+  } catch (error) {
+    console.error("Error starting chat:", error);
+    await failed();
+    return providerErrorResponse(error);
+  }
+}
@@ -0,0 +1,114 @@
+import type { LanguageModel } from "ai";
+import { escapeMermaidLabel, quoteMermaidLabels } from "../mermaid/sanitize";
+
+type CallOptions = Parameters<LanguageModel["doGenerate"]>[0];
+
+const promptText = (options: CallOptions) =>
+  options.prompt
+    .map(message =>
+      typeof message.content === "string"
+        ? message.content
+        : message.content.map(part => ("text" in part ? part.text : "")).join("")
+    )
+    .join("\n");
+
+function lastUserText(options: CallOptions): string {
+  const message = [...options.prompt].reverse().find(m => m.role === "user");
+  if (!message) return "";
+  return message.content.map(part => (part.type === "text" ? part.text : "")).join("");
+}
+
+function mockChartEdit(source: string, instruction: string): string {
+  try {
+    const spec = JSON.parse(source);
+    return JSON.stringify({ ...spec, title: `${spec.title ?? ""} (mock edit: ${instruction})` }, null, 2);
+  } catch {
+    return source;
+  }
+}
+
+// Deterministic replies for the prompts this app sends, so every generation flow can
+// run without network access or API keys. Anything unrecognised is echoed back.
+export function mockReply(prompt: string): string {
+  // Canvas edits (see buildEditMessage): return the current source with the instruction noted
+  const edit = /source:\n```(\w+)\n([\s\S]*?)\n```\n\nInstruction: (.*)/.exec(prompt);
+  if (edit) {
+    const [, lang, source, instruction] = edit;
+    // JSON has no comments, so chart edits note the instruction in the title
+    if (lang === "json") return "```json\n" + mockChartEdit(source, instruction) + "\n```";
+    const note = lang === "mermaid" ? `%% mock edit: ${instruction}` : `<!-- mock edit: ${instruction} -->`;
+    return "```" + lang + "\n" + source + "\n" + note + "\n```";
+  }
+  const create = /There is no (Mermaid diagram|HTML animation|chart) yet[\s\S]*Instruction: (.*)/.exec(prompt);
+  if (create) {
+    const [, label, instruction] = create;
+    if (label === "chart") {
+      const spec = { type: "bar", title: instruction, labels: ["A", "B", "C"], series: [{ name: "Mock", values: [3, 5, 2] }] };
+      return "```json\n" + JSON.stringify(spec, null, 2) + "\n```";
+    }
+    return label === "Mermaid diagram"
+      ? "```mermaid\nflowchart TD\n    A[" + escapeMermaidLabel(instruction) + "]\n```"
+      : "```html\n<!doctype html>\n<html><body><h1>Mock animation</h1><p>" + instruction.replace(/</g, "&lt;") + "</p></body></html>\n```";
+  }
+
+  // Diagram repair (see buildRepairPrompt): quote every label
+  const repair = /^Mermaid source:\n([\s\S]*?)\n\nParser error:/.exec(prompt);
+  if (repair) return quoteMermaidLabels(repair[1]);
+
+  // Diagram generation (see buildDiagramPrompt): heading linked to the first few sentences
+  const diagram = /^Section heading: (.*)\n\nSection text:\n([\s\S]*)$/.exec(prompt);
+  if (diagram) {
+    const [, heading, body] = diagram;
+    const points = body.split(/(?<=[.!?])\s+|\n+/).map(s => s.trim()).filter(s => s.length > 3).slice(0, 4);
+    const clip = (text: string) => (text.length > 40 ? `${text.slice(0, 37)}...` : text);
+    return [
+      "flowchart TD",
+      `    A[${escapeMermaidLabel(clip(heading))}]`,
+      ...points.map((point, i) => `    A --> B${i + 1}[${escapeMermaidLabel(clip(point))}]`),
+    ].join("\n");
+  }
+
+  return `Mock response to: ${prompt.slice(0, 200)}`;
+}
+
+export function createMockModel(modelId: string): LanguageModel {
+  const run = (options: CallOptions) => {
+    const text = mockReply(lastUserText(options));
+    return {
+      text,
+      usage: {
+        promptTokens: Math.ceil(promptText(options).length / 4),
+        completionTokens: Math.ceil(text.length / 4),
+      },
+      rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+    };
+  };
+
+  return {
+    specificationVersion: "v1",
+    provider: "mock",
+    modelId,
+    defaultObjectGenerationMode: undefined,
+
+    async doGenerate(options) {
+      const { text, usage, rawCall } = run(options);
+      return { text, usage, rawCall, finishReason: "stop" };
+    },
+
+    async doStream(options) {
+      const { text, usage, rawCall } = run(options);
+      // Word-sized chunks, like a real provider stream
+      const chunks = text.match(/\S+\s*|\s+/g) ?? [];
+      const stream = new ReadableStream({
+        start(controller) {
+          for (const chunk of chunks) {
+            controller.enqueue({ type: "text-delta", textDelta: chunk });
+          }
+          controller.enqueue({ type: "finish", finishReason: "stop", usage });
+          controller.close();
+        },
+      });
+      return { stream, rawCall };
+    },
+  };
+}
@@ -0,0 +1,49 @@
+export type LlmProvider = "openai" | "anthropic" | "local" | "mock";
+
+export const LLM_PROVIDERS: LlmProvider[] = ["anthropic", "openai", "local", "mock"];
+
+export const llmProviderLabels: Record<LlmProvider, string> = {
+  anthropic: "Anthropic",
+  openai: "OpenAI",
+  local: "Local (OpenAI-compatible)",
+  mock: "Mock (offline)",
+};
+
+// `code` of the 503 a route answers with when no provider is configured, so clients can
+// tell it from the server being unavailable for some other reason
+export const NO_PROVIDER_CODE = "no_provider";
+
+// Per-request model settings sent by the client. Anything left out uses the server defaults.
+export type LlmOptions = {
+  provider?: LlmProvider;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+};
+
+export type ProviderInfo = {
+  id: LlmProvider;
+  label: string;
+  defaultModel: string;
+  configured: boolean;
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Picks the LLM options out of a request body, dropping unknown providers and out-of-range values.
+export function parseLlmOptions(body: Record<string, unknown>): LlmOptions {
+  const options: LlmOptions = {};
+  if (typeof body.provider === "string" && LLM_PROVIDERS.includes(body.provider as LlmProvider)) {
+    options.provider = body.provider as LlmProvider;
+  }
+  if (typeof body.model === "string" && body.model.trim()) {
+    options.model = body.model.trim();
+  }
+  if (typeof body.temperature === "number" && Number.isFinite(body.temperature)) {
+    options.temperature = clamp(body.temperature, 0, 2);
+  }
+  if (typeof body.maxTokens === "number" && Number.isFinite(body.maxTokens)) {
+    options.maxTokens = Math.round(clamp(body.maxTokens, 1, 16384));
+  }
+  return options;
+}
@@ -0,0 +1,82 @@
+import { anthropic } from "@ai-sdk/anthropic";
+import { createOpenAI, openai } from "@ai-sdk/openai";
+import type { LanguageModel } from "ai";
+import { createMockModel } from "./mock";
+import { LLM_PROVIDERS, llmProviderLabels, type LlmOptions, type LlmProvider, type ProviderInfo } from "./options";
+
+// Server-side only: reads provider keys from the environment.
+//
+//   OPENAI_API_KEY, ANTHROPIC_API_KEY   hosted providers
+//   LOCAL_LLM_BASE_URL                  OpenAI-compatible endpoint, e.g. http://localhost:11434/v1
+//   LOCAL_LLM_API_KEY, LOCAL_LLM_MODEL  optional key and default model for that endpoint
+//   LLM_PROVIDER                        provider used when a request doesn't name one
+
+const defaultModels: Record<LlmProvider, () => string> = {
+  anthropic: () => "claude-3-5-sonnet-20240620",
+  openai: () => "gpt-4o",
+  local: () => process.env.LOCAL_LLM_MODEL ?? "llama3.1",
+  mock: () => "mock-1",
+};
+
+function isConfigured(provider: LlmProvider): boolean {
+  switch (provider) {
+    case "anthropic":
+      return Boolean(process.env.ANTHROPIC_API_KEY);
+    case "openai":
+      return Boolean(process.env.OPENAI_API_KEY);
+    case "local":
+      return Boolean(process.env.LOCAL_LLM_BASE_URL);
+    case "mock":
+      return true;
+  }
+}
+
+// LLM_PROVIDER when set, otherwise the first hosted or local provider with credentials.
+// The mock provider is never picked implicitly, so callers can still detect "no provider".
+function defaultProvider(): LlmProvider | null {
+  const fromEnv = process.env.LLM_PROVIDER as LlmProvider | undefined;
+  if (fromEnv && LLM_PROVIDERS.includes(fromEnv) && isConfigured(fromEnv)) return fromEnv;
+  return (["anthropic", "openai", "local"] as const).find(isConfigured) ?? null;
+}
+
+export function listProviders(): { providers: ProviderInfo[]; defaultProvider: LlmProvider | null } {
+  return {
+    providers: LLM_PROVIDERS.map(id => ({
+      id,
+      label: llmProviderLabels[id],
+      defaultModel: defaultModels[id](),
+      configured: isConfigured(id),
+    })),
+    defaultProvider: defaultProvider(),
+  };
+}
+
+export type ResolvedModel = {
+  provider: LlmProvider;
+  modelId: string;
+  model: LanguageModel;
+};
+
+// Returns null when the requested provider (or, with none requested, any provider) isn't configured.
+export function resolveModel({ provider, model }: LlmOptions = {}): ResolvedModel | null {
+  const chosen = provider ?? defaultProvider();
+  if (!chosen || !isConfigured(chosen)) return null;
+
+  const modelId = model ?? defaultModels[chosen]();
+  switch (chosen) {
+    case "anthropic":
+      return { provider: chosen, modelId, model: anthropic(modelId) };
+    case "openai":
+      return { provider: chosen, modelId, model: openai(modelId) };
+    case "local": {
+      const local = createOpenAI({
+        baseURL: process.env.LOCAL_LLM_BASE_URL,
+        apiKey: process.env.LOCAL_LLM_API_KEY ?? "local",
+        compatibility: "compatible",
+      });
+      return { provider: chosen, modelId, model: local(modelId) };
+    }
+    case "mock":
+      return { provider: chosen, modelId, model: createMockModel(modelId) };
+  }
+}
@@ -0,0 +1,87 @@
+import { sectionSentences, sectionText, type Section } from "./sections";
+
+export type Stat = {
+  display: string; // the figure as written, e.g. "48%" or "$1.2 billion"
+  value: number;
+  label: string; // the sentence or table cell it came from
+};
+
+export type TimelineEvent = {
+  when: string;
+  what: string;
+};
+
+// Structured view of a section's content: the lists, tables, quotes, figures and dates
+// that classifiers and generators work from
+export type SectionContent = {
+  heading: string;
+  sentences: string[]; // prose sentences and list items, in order
+  listItems: string[];
+  orderedItems: string[];
+  tables: { header: string[]; rows: string[][] }[];
+  quotes: string[];
+  stats: Stat[];
+  events: TimelineEvent[];
+  subheadings: { depth: number; text: string }[]; // headings folded into this section
+  text: string; // lowercased prose, for keyword checks
+};
+
+const statPattern = /(?:[$€£]\s?)?\d[\d,]*(?:\.\d+)?\s?(?:%|x\b|×|k\b|m\b|bn\b|million\b|billion\b|trillion\b)|[$€£]\s?\d[\d,]*(?:\.\d+)?/gi;
+
+const months = "jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?";
+const eventPattern = new RegExp(
+  String.raw`^(?:in\s+|by\s+)?((?:Q[1-4]\s+)?\d{4}s?|(?:${months})\.?\s+\d{4}|\d{4}-\d{2}(?:-\d{2})?)\s*(?:[:–—-]\s*|,\s*)(.+)$`,
+  "i"
+);
+
+const multipliers: Record<string, number> = { k: 1e3, m: 1e6, million: 1e6, bn: 1e9, billion: 1e9, trillion: 1e12 };
+
+export function parseStat(display: string, label: string): Stat {
+  const number = Number(display.replace(/[^\d.]/g, ""));
+  const unit = display.replace(/^[$€£]?\s?[\d,.]+\s?/, "").toLowerCase();
+  return { display: display.trim(), value: number * (multipliers[unit] ?? 1), label };
+}
+
+export function extractSectionContent(section: Section): SectionContent {
+  const sentences = sectionSentences(section);
+  const data: SectionContent = {
+    heading: section.heading,
+    sentences,
+    listItems: [],
+    orderedItems: [],
+    tables: [],
+    quotes: [],
+    stats: [],
+    events: [],
+    subheadings: [],
+    text: sectionText(section).toLowerCase(),
+  };
+
+  for (const block of section.blocks) {
+    switch (block.type) {
+      case "list":
+        data.listItems.push(...block.items);
+        if (block.ordered) data.orderedItems.push(...block.items);
+        break;
+      case "table":
+        data.tables.push({ header: block.header, rows: block.rows });
+        break;
+      case "blockquote":
+        data.quotes.push(block.text);
+        break;
+      case "heading":
+        data.subheadings.push({ depth: block.depth, text: block.text });
+        break;
+    }
+  }
+
+  for (const sentence of sentences) {
+    for (const match of sentence.match(statPattern) ?? []) {
+      data.stats.push(parseStat(match, sentence));
+    }
+    const event = eventPattern.exec(sentence);
+    if (event) data.events.push({ when: event[1], what: event[2] });
+  }
+
+  return data;
+}
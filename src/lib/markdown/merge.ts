@@ -0,0 +1,89 @@
+import type { Section } from "./sections";
+
+// Fields that hold a section's generated or hand-edited canvas
+const contentFields = ["code", "mermaidCode", "chartSpec"] as const;
+// Canvas content plus its settings, carried over together when a section is matched
+const canvasFields = [...contentFields, "canvasKind", "templateId"] as const;
+
+type Canvas = Pick<Section, (typeof canvasFields)[number]>;
+
+// Minimum similarity for an edited or renamed section to inherit a previous canvas
+const MATCH_THRESHOLD = 0.5;
+
+export function hasCanvas(section: Section): boolean {
+  return contentFields.some(field => section[field] !== undefined);
+}
+
+export function pickCanvas(section: Section): Canvas {
+  const canvas: Canvas = {};
+  for (const field of canvasFields) {
+    if (section[field] !== undefined) Object.assign(canvas, { [field]: section[field] });
+  }
+  return canvas;
+}
+
+const tokenize = (text: string) => new Set(text.toLowerCase().match(/[a-z0-9]+/g) ?? []);
+
+// Dice coefficient over word sets: 1 for identical vocabularies, 0 for disjoint ones
+function textSimilarity(a: string, b: string): number {
+  const left = tokenize(a);
+  const right = tokenize(b);
+  if (left.size === 0 && right.size === 0) return 1;
+  let shared = 0;
+  left.forEach(token => {
+    if (right.has(token)) shared++;
+  });
+  return (2 * shared) / (left.size + right.size);
+}
+
+export function sectionSimilarity(a: Section, b: Section): number {
+  return 0.4 * textSimilarity(a.heading, b.heading) + 0.6 * textSimilarity(a.body, b.body);
+}
+
+// Carries canvases from the previous parse over to a fresh one. Sections keep their
+// canvas when their ID is unchanged; remaining ones are paired with the most similar
+// previous section above MATCH_THRESHOLD; those pairs are listed in `moved`. Previous
+// canvases that found no new home are returned as orphans so the user can reattach or
+// discard them.
+export function mergeSections(previous: Section[], parsed: Section[]): {
+  sections: Section[];
+  orphans: Section[];
+  moved: { from: string; to: string }[];
+} {
+  const pending = previous.filter(hasCanvas);
+  const canvases = new Map<string, Canvas>();
+
+  const parsedIds = new Set(parsed.map(s => s.id));
+  for (const old of pending.filter(s => parsedIds.has(s.id))) {
+    canvases.set(old.id, pickCanvas(old));
+  }
+
+  // Sections whose ID already existed keep their identity even without a canvas
+  const previousIds = new Set(previous.map(s => s.id));
+  let unmatchedOld = pending.filter(s => !parsedIds.has(s.id));
+  const candidates = parsed
+    .filter(s => !previousIds.has(s.id))
+    .flatMap(fresh => unmatchedOld.map(old => ({ fresh, old, score: sectionSimilarity(fresh, old) })))
+    .filter(pair => pair.score >= MATCH_THRESHOLD)
+    .sort((a, b) => b.score - a.score);
+
+  const moved: { from: string; to: string }[] = [];
+  for (const { fresh, old } of candidates) {
+    if (canvases.has(fresh.id) || !unmatchedOld.includes(old)) continue;
+    canvases.set(fresh.id, pickCanvas(old));
+    moved.push({ from: old.id, to: fresh.id });
+    unmatchedOld = unmatchedOld.filter(s => s !== old);
+  }
+
+  return {
+    // A diagram fence in the markdown wins over the one carried over, so editing the
+    // fence and re-parsing updates the diagram
+    sections: parsed.map(s => ({
+      ...s,
+      ...canvases.get(s.id),
+      ...(s.mermaidCode !== undefined ? { mermaidCode: s.mermaidCode } : {}),
+    })),
+    orphans: unmatchedOld,
+    moved,
+  };
+}
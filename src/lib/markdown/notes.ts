@@ -0,0 +1,19 @@
+const HEADING_WORDS = 8;
+
+// A heading from the note's first sentence, cut to a few words; characters that would
+// make it something other than plain heading text are dropped
+export function noteHeading(text: string): string {
+  const sentence = text.trim().split(/(?<=[.!?])\s|\n/)[0].replace(/[.!?]+$/, "");
+  const words = sentence.replace(/[#*_`[\]<>|\\]/g, "").split(/\s+/).filter(Boolean);
+  const heading = words.slice(0, HEADING_WORDS).join(" ");
+  return words.length > HEADING_WORDS ? `${heading}…` : heading || "Voice note";
+}
+
+// Appends a voice note to a report as a section of its own: H2 (or H1 when only H1
+// headings get a canvas) so it gets a canvas, with the whole note as its body.
+export function appendNoteSection(markdown: string, text: string, canvasDepth: number): string {
+  const level = Math.min(2, canvasDepth);
+  const section = `${"#".repeat(level)} ${noteHeading(text)}\n\n${text.trim()}\n`;
+  const report = markdown.trimEnd();
+  return report ? `${report}\n\n${section}` : section;
+}
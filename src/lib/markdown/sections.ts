@@ -0,0 +1,262 @@
+import type { ListItem, Paragraph, Root, RootContent } from "mdast";
+import { toString } from "mdast-util-to-string";
+import remarkFrontmatter from "remark-frontmatter";
+import remarkGfm from "remark-gfm";
+import remarkParse from "remark-parse";
+import { unified } from "unified";
+import type { RevisionKind } from "../supabase/revisions";
+
+// Structured content of a section, derived from the markdown AST
+export type Block =
+  | { type: "paragraph"; text: string }
+  | { type: "heading"; depth: number; text: string } // headings folded below the canvas depth
+  | { type: "list"; ordered: boolean; items: string[] }
+  | { type: "table"; header: string[]; rows: string[][] }
+  | { type: "code"; lang: string | null; value: string }
+  | { type: "image"; url: string; alt: string }
+  | { type: "blockquote"; text: string };
+
+export type Section = {
+  id: string; // heading path, e.g. "report-title/methods/sampling"; stable across re-parses
+  heading: string;
+  level: number; // heading depth, 1 (#) to 6 (######)
+  parentId: string | null; // closest preceding section with a smaller level
+  body: string; // markdown source between this heading and the next section
+  blocks: Block[];
+  code?: string; // custom HTML/JS pasted by user
+  mermaidCode?: string; // AI-generated Mermaid diagram
+  chartSpec?: string; // chart data as JSON (see lib/chart/spec)
+  canvasKind?: RevisionKind; // which canvas is shown; the most recently changed one
+  templateId?: string; // animation template chosen for the section; unset picks one automatically
+};
+
+export type OutlineNode = {
+  section: Section;
+  number: string; // hierarchical number, e.g. "2.1.3"
+  children: OutlineNode[];
+};
+
+export const MAX_HEADING_LEVEL = 6;
+
+// Where "Export markdown" puts animation and chart files, relative to the report
+export const EXPORTED_ASSET_DIR = "assets";
+
+// Where a section sits in the markdown it was parsed from
+export type SectionLayout = {
+  section: Section;
+  contentStart: number; // offset just after the heading, where canvases are written back
+  cuts: [number, number][]; // ranges left out of the body: canvases restored from the markdown
+};
+
+const slugify = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "section";
+
+const markdownParser = unified().use(remarkParse).use(remarkGfm).use(remarkFrontmatter, ["yaml", "toml"]);
+
+const textOf = (node: RootContent | ListItem) => toString(node, { includeImageAlt: false }).trim();
+
+function toBlocks(node: RootContent): Block[] {
+  switch (node.type) {
+    case "paragraph": {
+      const text = textOf(node);
+      const images: Block[] = node.children.flatMap(child =>
+        child.type === "image" ? [{ type: "image" as const, url: child.url, alt: child.alt ?? "" }] : []
+      );
+      return text ? [{ type: "paragraph", text }, ...images] : images;
+    }
+    case "heading":
+      return [{ type: "heading", depth: node.depth, text: textOf(node) }];
+    case "list":
+      return [{
+        type: "list",
+        ordered: node.ordered ?? false,
+        items: node.children.map(item => item.children.map(textOf).filter(Boolean).join(" ")),
+      }];
+    case "table": {
+      const [header = [], ...rows] = node.children.map(row => row.children.map(cell => toString(cell).trim()));
+      return [{ type: "table", header, rows }];
+    }
+    case "code":
+      return [{ type: "code", lang: node.lang ?? null, value: node.value }];
+    case "blockquote":
+      return [{ type: "blockquote", text: node.children.map(textOf).filter(Boolean).join("\n") }];
+    default:
+      // Front-matter, HTML, thematic breaks and definitions carry no section content
+      return [];
+  }
+}
+
+const isExportedAssetLink = (node: Paragraph) =>
+  node.children.length === 1 &&
+  node.children[0].type === "link" &&
+  node.children[0].url.startsWith(`${EXPORTED_ASSET_DIR}/`);
+
+// Body source between two offsets, without the cut ranges
+function sliceBody(markdown: string, start: number, end: number, cuts: [number, number][]): string {
+  const pieces: string[] = [];
+  let from = start;
+  for (const [cutStart, cutEnd] of cuts) {
+    pieces.push(markdown.slice(from, cutStart));
+    from = cutEnd;
+  }
+  pieces.push(markdown.slice(from, end));
+  return pieces
+    .map(piece => piece.replace(/^(?:[ \t]*\n)+/, "").trimEnd())
+    .filter(Boolean)
+    .join("\n\n")
+    .trim();
+}
+
+// Splits a markdown report into sections at its headings (ATX `#` and setext `===`/`---`).
+// The report is parsed into an mdast tree first, so `#` lines inside code fences and
+// YAML/TOML front-matter never start a section. Headings deeper than `canvasDepth`
+// don't get their own section; they stay inside the body of the section they belong to.
+// Section IDs are slugged heading paths, so re-parsing an edited report keeps the IDs
+// of sections whose heading and position in the outline didn't change.
+// A section's first ```mermaid fence becomes its diagram, and links to exported assets
+// are dropped, so markdown written by "Export markdown" parses back to the same canvases.
+export function splitMarkdownIntoSections(markdown: string, canvasDepth: number = MAX_HEADING_LEVEL): Section[] {
+  return sectionLayout(markdown, canvasDepth).map(layout => layout.section);
+}
+
+export function sectionLayout(markdown: string, canvasDepth: number = MAX_HEADING_LEVEL): SectionLayout[] {
+  const tree = markdownParser.parse(markdown) as Root;
+  const layouts: SectionLayout[] = [];
+  // Open sections by level, used to resolve each new section's parent
+  const stack: Section[] = [];
+  let current: Section | null = null;
+  let bodyStart = 0;
+  let cuts: [number, number][] = [];
+  const usedIds = new Set<string>();
+
+  // Repeated heading paths get a numeric suffix: "results", "results-2", ...
+  const uniqueId = (base: string) => {
+    let id = base;
+    for (let n = 2; usedIds.has(id); n++) {
+      id = `${base}-${n}`;
+    }
+    usedIds.add(id);
+    return id;
+  };
+
+  const pushCurrent = (bodyEnd: number) => {
+    if (current) {
+      const body = sliceBody(markdown, bodyStart, bodyEnd, cuts);
+      // Skip an implicit introduction (level 0) with no content
+      if (current.level > 0 || current.blocks.length > 0 || current.mermaidCode !== undefined) {
+        layouts.push({
+          section: { ...current, level: Math.max(current.level, 1), body },
+          contentStart: bodyStart,
+          cuts,
+        });
+      }
+    }
+  };
+
+  for (const node of tree.children) {
+    const start = node.position?.start.offset ?? 0;
+    const end = node.position?.end.offset ?? start;
+
+    if (node.type === "heading" && (node.depth <= canvasDepth || !current)) {
+      pushCurrent(start);
+      while (stack.length > 0 && stack[stack.length - 1].level >= node.depth) {
+        stack.pop();
+      }
+      const heading = textOf(node);
+      const parent = stack.length > 0 ? stack[stack.length - 1] : null;
+      current = {
+        id: uniqueId(parent ? `${parent.id}/${slugify(heading)}` : slugify(heading)),
+        heading,
+        level: node.depth,
+        parentId: parent ? parent.id : null,
+        body: "",
+        blocks: [],
+      };
+      stack.push(current);
+      bodyStart = end;
+      cuts = [];
+      continue;
+    }
+
+    const blocks = toBlocks(node);
+    if (!current) {
+      if (blocks.length === 0) continue;
+      // content before first heading goes into an implicit section
+      current = {
+        id: uniqueId("introduction"),
+        heading: "Introduction",
+        level: 0,
+        parentId: null,
+        body: "",
+        blocks: [],
+      };
+      bodyStart = start;
+      cuts = [];
+    }
+
+    // The first Mermaid fence is the section's diagram, and exported asset links are
+    // written again on export; neither is part of the body
+    if (node.type === "code" && node.lang?.toLowerCase() === "mermaid" && current.mermaidCode === undefined) {
+      current.mermaidCode = node.value;
+      cuts.push([start, end]);
+      continue;
+    }
+    if (node.type === "paragraph" && isExportedAssetLink(node)) {
+      cuts.push([start, end]);
+      continue;
+    }
+    current.blocks.push(...blocks);
+  }
+
+  pushCurrent(markdown.length);
+  return layouts;
+}
+
+const splitSentences = (text: string) =>
+  text.split(/(?<=[.!?])\s+/).map(s => s.trim()).filter(Boolean);
+
+// Prose of a section as sentences and list items, in document order.
+// Code, tables and images are left out.
+export function sectionSentences(section: Section): string[] {
+  return section.blocks.flatMap(block => {
+    switch (block.type) {
+      case "paragraph":
+      case "blockquote":
+        return splitSentences(block.text);
+      case "list":
+        return block.items;
+      default:
+        return [];
+    }
+  });
+}
+
+// Plain prose text of a section, used for keyword checks.
+export function sectionText(section: Section): string {
+  return sectionSentences(section).join(" ");
+}
+
+// Builds the nested outline shown in the sidebar from the flat section list.
+export function buildOutline(sections: Section[]): OutlineNode[] {
+  const roots: OutlineNode[] = [];
+  const byId = new Map<string, OutlineNode>();
+
+  for (const section of sections) {
+    const parent = section.parentId ? byId.get(section.parentId) : undefined;
+    const siblings = parent ? parent.children : roots;
+    const node: OutlineNode = {
+      section,
+      number: parent ? `${parent.number}.${siblings.length + 1}` : `${siblings.length + 1}`,
+      children: [],
+    };
+    siblings.push(node);
+    byId.set(section.id, node);
+  }
+
+  return roots;
+}
+
+// Flattens the outline back into document order, keeping the computed numbers.
+export function flattenOutline(nodes: OutlineNode[]): OutlineNode[] {
+  return nodes.flatMap(node => [node, ...flattenOutline(node.children)]);
+}
@@ -0,0 +1,87 @@
+import type { Section } from "../markdown/sections";
+import { NO_PROVIDER_CODE, type LlmOptions } from "../llm/options";
+import { authHeaders } from "../supabase/authHeaders";
+import type { MermaidError } from "./validate";
+
+// A failed diagram request, with the HTTP status so callers can tell provider hiccups
+// (rate limits, server errors) that are worth retrying from bad requests, and how long
+// the server asked to wait before trying again (its Retry-After), when it did
+export class DiagramRequestError extends Error {
+  constructor(message: string, readonly status: number, readonly retryAfterMs?: number) {
+    super(message);
+    this.name = "DiagramRequestError";
+  }
+}
+
+// Longer waits than this (a daily quota, say) aren't worth holding a batch for
+const MAX_RETRY_AFTER_MS = 2 * 60_000;
+
+export const isRetryableDiagramError = (error: unknown) =>
+  error instanceof DiagramRequestError
+    ? (error.status === 429 || error.status >= 500) && (error.retryAfterMs ?? 0) <= MAX_RETRY_AFTER_MS
+    : error instanceof TypeError;
+
+export const diagramRetryAfterMs = (error: unknown) =>
+  error instanceof DiagramRequestError ? error.retryAfterMs : undefined;
+
+// Retry-After is either a number of seconds or an HTTP date
+function retryAfterMs(response: Response): number | undefined {
+  const header = response.headers.get("Retry-After");
+  if (!header) return undefined;
+  const seconds = Number(header);
+  const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(header) - Date.now();
+  return Number.isFinite(ms) ? Math.max(0, ms) : undefined;
+}
+
+// A response's JSON; an error page that isn't JSON reads as an empty result
+const readResult = (response: Response): Promise<{ mermaid?: string; error?: string; code?: string }> =>
+  response.json().catch(() => ({}));
+
+const requestError = (response: Response, message: string) =>
+  new DiagramRequestError(message, response.status, retryAfterMs(response));
+
+// Asks /api/diagram for an LLM-generated diagram. Resolves to null when the server
+// has no provider key configured, so the caller can fall back to the offline heuristic;
+// anything else that isn't a diagram (a usage limit, an outage) is thrown.
+export async function requestMermaidDiagram(
+  section: Section,
+  options: LlmOptions = {},
+  signal?: AbortSignal
+): Promise<string | null> {
+  const response = await fetch("/api/diagram", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...(await authHeaders()) },
+    body: JSON.stringify({ heading: section.heading, body: section.body, ...options }),
+    signal,
+  });
+
+  const result = await readResult(response);
+  if (result.code === NO_PROVIDER_CODE) return null;
+  if (!response.ok || typeof result.mermaid !== "string") {
+    throw requestError(response, result.error || "Failed to generate diagram");
+  }
+  return result.mermaid;
+}
+
+// Asks /api/diagram/repair to fix source that failed to parse. Resolves to null
+// when no provider is configured.
+export async function requestMermaidRepair(
+  source: string,
+  error: MermaidError,
+  options: LlmOptions = {},
+  signal?: AbortSignal
+): Promise<string | null> {
+  const response = await fetch("/api/diagram/repair", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...(await authHeaders()) },
+    body: JSON.stringify({ source, error, ...options }),
+    signal,
+  });
+
+  const result = await readResult(response);
+  if (result.code === NO_PROVIDER_CODE) return null;
+  if (!response.ok || typeof result.mermaid !== "string") {
+    throw requestError(response, result.error || "Failed to repair diagram");
+  }
+  return result.mermaid;
+}
@@ -0,0 +1,112 @@
+import { sectionSentences, type Section } from "../markdown/sections";
+import { classifySection, matchesKeyword } from "../classifier/classify";
+import { DEFAULT_CLASSIFIER_RULES, type ClassifierRules } from "../classifier/rules";
+import { escapeMermaidLabel } from "./sanitize";
+
+// Offline fallback for diagram generation, used when no LLM provider key is configured.
+// Picks a diagram shape from the section's category and fills it with clipped sentences.
+export function buildHeuristicMermaid(section: Section, rules: ClassifierRules = DEFAULT_CLASSIFIER_RULES): string {
+  const { category } = classifySection(section, rules);
+  let summary = '';
+  
+  // Extract key concepts and create meaningful summaries
+  if (category === 'process') {
+    // Process/Workflow - extract key steps
+    const sentences = sectionSentences(section).filter(s => s.trim().length > 20);
+    const steps = sentences.slice(0, 4).map(s => {
+      const clean = s.trim();
+      if (matchesKeyword(clean, ['first', 'initially'])) return 'Initial Setup';
+      if (matchesKeyword(clean, ['then', 'next'])) return 'Main Process';
+      if (matchesKeyword(clean, ['finally', 'complete'])) return 'Finalization';
+      if (matchesKeyword(clean, ['evaluate', 'assess'])) return 'Evaluation';
+      return clean.substring(0, 20) + (clean.length > 20 ? '...' : '');
+    });
+    
+    summary = `flowchart TD
+    A[${escapeMermaidLabel(section.heading)}]`;
+    steps.forEach((step, index) => {
+      summary += `\n    A --> B${index + 1}[${escapeMermaidLabel(step)}]`;
+    });
+    summary += `\n    B${steps.length} --> C[Complete]`;
+    
+  } else if (category === 'architecture') {
+    // System/Architecture - extract main components
+    const sentences = sectionSentences(section).filter(s => s.trim().length > 15);
+    const components = sentences.slice(0, 4).map(s => {
+      const clean = s.trim();
+      if (matchesKeyword(clean, ['hardware'])) return 'Hardware';
+      if (matchesKeyword(clean, ['software'])) return 'Software';
+      if (matchesKeyword(clean, ['interface'])) return 'Interface';
+      if (matchesKeyword(clean, ['data', 'database'])) return 'Data Layer';
+      if (matchesKeyword(clean, ['security'])) return 'Security';
+      if (matchesKeyword(clean, ['performance'])) return 'Performance';
+      return clean.substring(0, 15) + (clean.length > 15 ? '...' : '');
+    });
+    
+    summary = `graph TB
+    A[${escapeMermaidLabel(section.heading)}]`;
+    components.forEach((comp, index) => {
+      summary += `\n    A --- B${index + 1}[${escapeMermaidLabel(comp)}]`;
+    });
+    
+  } else if (category === 'comparison') {
+    // Comparison - extract comparison points
+    const sentences = sectionSentences(section).filter(s => s.trim().length > 15);
+    const points = sentences.slice(0, 3).map(s => {
+      const clean = s.trim();
+      if (matchesKeyword(clean, ['advantage', 'benefit'])) return 'Advantages';
+      if (matchesKeyword(clean, ['disadvantage', 'limitation'])) return 'Limitations';
+      if (matchesKeyword(clean, ['difference', 'contrast'])) return 'Key Differences';
+      return clean.substring(0, 15) + (clean.length > 15 ? '...' : '');
+    });
+    
+    summary = `graph LR
+    A[${escapeMermaidLabel(section.heading)}]`;
+    points.forEach((point, index) => {
+      summary += `\n    A --> B${index + 1}[${escapeMermaidLabel(point)}]`;
+    });
+    
+  } else {
+    // Default - extract main concepts
+    const sentences = sectionSentences(section).filter(s => s.trim().length > 20);
+    const concepts = sentences.slice(0, 3).map(s => {
+      const clean = s.trim();
+      // Extract meaningful concepts
+      if (matchesKeyword(clean, ['important', 'key'])) return 'Key Points';
+      if (matchesKeyword(clean, ['benefit', 'advantage'])) return 'Benefits';
+      if (matchesKeyword(clean, ['challenge', 'difficulty'])) return 'Challenges';
+      if (matchesKeyword(clean, ['solution', 'approach'])) return 'Solutions';
+      if (matchesKeyword(clean, ['requirement', 'need'])) return 'Requirements';
+      if (matchesKeyword(clean, ['implementation', 'deploy'])) return 'Implementation';
+      return clean.substring(0, 20) + (clean.length > 20 ? '...' : '');
+    });
+    
+    summary = `flowchart TD
+    A[${escapeMermaidLabel(section.heading)}]`;
+    concepts.forEach((concept, index) => {
+      summary += `\n    A --> B${index + 1}[${escapeMermaidLabel(concept)}]`;
+    });
+  }
+  
+  // Add styling
+  summary += `\n    
+    style A fill:#e1f5fe,stroke:#0ea5e9,stroke-width:3px`;
+  
+  // Add node styling based on content type
+  if (category === 'process') {
+    summary += `\n    style C fill:#c8e6c9,stroke:#22c55e,stroke-width:3px`;
+    for (let i = 1; i <= 4; i++) {
+      summary += `\n    style B${i} fill:#fef3c7,stroke:#f59e0b,stroke-width:2px`;
+    }
+  } else if (category === 'architecture') {
+    for (let i = 1; i <= 4; i++) {
+      summary += `\n    style B${i} fill:#ddd6fe,stroke:#8b5cf6,stroke-width:2px`;
+    }
+  } else {
+    for (let i = 1; i <= 3; i++) {
+      summary += `\n    style B${i} fill:#fef3c7,stroke:#f59e0b,stroke-width:2px`;
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,43 @@
+export const DIAGRAM_SYSTEM_PROMPT = `You turn sections of research reports into Mermaid diagrams.
+
+Read the section and identify the concrete entities it talks about (actors, systems, concepts, stages, metrics) and how they relate (sequence, causation, composition, comparison). Pick the Mermaid diagram type that fits best: flowchart for processes and causal chains, sequenceDiagram for interactions over time, classDiagram or flowchart for structures and hierarchies, timeline for dated events, quadrantChart or flowchart for comparisons.
+
+Rules:
+- Use the names and terms from the text as node labels. Keep labels under 40 characters.
+- Use between 4 and 15 nodes. Leave out filler; keep what a reader needs to understand the section.
+- Label edges with the relationship when it isn't obvious.
+- Wrap every node label in double quotes, e.g. A["Data ingestion (daily)"], and never use double quotes inside a label.
+- Reply with the Mermaid source only: no code fences, no explanations.`;
+
+export function buildDiagramPrompt(heading: string, body: string): string {
+  return `Section heading: ${heading}\n\nSection text:\n${body}`;
+}
+
+export const REPAIR_SYSTEM_PROMPT = `You fix Mermaid diagrams that fail to parse.
+
+You get the Mermaid source and the parser error. Change only what is needed to make the source valid: quote labels that contain brackets, parentheses, quotes or semicolons (A["label (with) [brackets]"]), replace double quotes inside labels with #quot;, and correct malformed edges or keywords. Keep every node, edge and label text otherwise unchanged.
+
+Reply with the corrected Mermaid source only: no code fences, no explanations.`;
+
+export type ParserError = { message: string; line?: number; lineText?: string };
+
+// Checks a parser error sent by the client before it goes into the prompt
+export const isParserError = (value: unknown): value is ParserError => {
+  const error = value as Partial<Record<keyof ParserError, unknown>> | null;
+  return (
+    typeof error === "object" && error !== null && typeof error.message === "string" &&
+    (error.line === undefined || typeof error.line === "number") &&
+    (error.lineText === undefined || typeof error.lineText === "string")
+  );
+};
+
+export function buildRepairPrompt(source: string, error: ParserError): string {
+  const location = error.line !== undefined ? `\nThe error is on line ${error.line}: ${error.lineText ?? ""}` : "";
+  return `Mermaid source:\n${source}\n\nParser error:\n${error.message}${location}`;
+}
+
+// Models sometimes wrap the diagram in a code fence or add a sentence around it.
+export function extractMermaidSource(text: string): string {
+  const fenced = /```(?:mermaid)?\s*\n([\s\S]*?)```/.exec(text);
+  return (fenced ? fenced[1] : text).trim();
+}
@@ -0,0 +1,53 @@
+import { loadMermaid, toMermaidError, type MermaidError } from "./validate";
+
+export type DiagramNode = {
+  id: string; // the node's ID in the Mermaid source, e.g. "A"
+  label: string;
+};
+
+export type MermaidRender =
+  | { ok: true; svg: string; diagramType: string; nodes: DiagramNode[] }
+  | { ok: false; error: MermaidError };
+
+const CACHE_SIZE = 50;
+const cache = new Map<string, Promise<MermaidRender>>();
+let renderCount = 0;
+// Mermaid keeps per-render state globally, so renders run one at a time
+let queue: Promise<unknown> = Promise.resolve();
+
+// Nodes of a rendered diagram. Flowchart nodes only carry their source ID inside the
+// element ID ("<render id>-flowchart-A-0"); other diagrams set data-id.
+function diagramNodes(svg: string): DiagramNode[] {
+  // Parsed as HTML: labels are HTML inside <foreignObject>, which isn't always well-formed XML
+  const doc = new DOMParser().parseFromString(svg, "text/html");
+  return Array.from(doc.querySelectorAll("g.node"), element => ({
+    id: element.getAttribute("data-id") ?? /flowchart-(.+)-\d+$/.exec(element.id)?.[1] ?? element.id,
+    label: (element.textContent ?? "").replace(/\s+/g, " ").trim(),
+  }));
+}
+
+async function render(source: string): Promise<MermaidRender> {
+  try {
+    const mermaid = await loadMermaid();
+    // Every render gets its own element ID, so several diagrams can sit in one document
+    // without their styles clashing
+    const { svg, diagramType } = await mermaid.render(`mermaid-svg-${++renderCount}`, source);
+    return { ok: true, svg, diagramType, nodes: diagramNodes(svg) };
+  } catch (error) {
+    return { ok: false, error: toMermaidError(source, error) };
+  }
+}
+
+// Renders a diagram to SVG in the browser with the bundled Mermaid, so nothing is loaded
+// from a CDN. Failures resolve with the parse or render error instead of throwing.
+// Results are cached by source, since the same diagram is shown in several places.
+export function renderMermaid(source: string): Promise<MermaidRender> {
+  const cached = cache.get(source);
+  if (cached) return cached;
+
+  const result = queue.then(() => render(source));
+  queue = result;
+  cache.set(source, result);
+  if (cache.size > CACHE_SIZE) cache.delete(cache.keys().next().value!);
+  return result;
+}
@@ -0,0 +1,30 @@
+import { quoteMermaidLabels } from "./sanitize";
+import { validateMermaid, type MermaidError } from "./validate";
+
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+export type MermaidRepairer = (source: string, error: MermaidError) => Promise<string | null>;
+
+// Returns source that parses, trying in order: the source as is, the source with every
+// label quoted, then up to `maxAttempts` rounds of `repair` fed with the parser error.
+// When nothing parses, the last attempt comes back together with its error.
+export async function ensureValidMermaid(
+  source: string,
+  repair?: MermaidRepairer,
+  maxAttempts: number = MAX_REPAIR_ATTEMPTS
+): Promise<{ source: string; error?: MermaidError }> {
+  const initial = await validateMermaid(source);
+  if (initial.ok) return { source };
+
+  let current = quoteMermaidLabels(source);
+  let check = current === source ? initial : await validateMermaid(current);
+
+  for (let attempt = 0; !check.ok && repair && attempt < maxAttempts; attempt++) {
+    const repaired = await repair(current, check.error);
+    if (!repaired) break;
+    current = repaired;
+    check = await validateMermaid(current);
+  }
+
+  return check.ok ? { source: current } : { source: current, error: check.error };
+}
@@ -0,0 +1,103 @@
+// Node shapes as [open, close] pairs, longest first so "[[" wins over "["
+const shapes: [string, string][] = [
+  ["(((", ")))"],
+  ["[[", "]]"],
+  ["[(", ")]"],
+  ["([", "])"],
+  ["((", "))"],
+  ["{{", "}}"],
+  ["[/", "/]"],
+  ["[\\", "\\]"],
+  ["[", "]"],
+  ["(", ")"],
+  ["{", "}"],
+  [">", "]"],
+];
+
+const quoteLabel = (label: string) => {
+  const trimmed = label.trim();
+  if (/^".*"$/.test(trimmed)) return label;
+  return `"${trimmed.replace(/"/g, "#quot;")}"`;
+};
+
+// Mermaid entity codes (#name;), which it turns back into the characters when drawing
+const mermaidEntities: Record<string, string> = {
+  '"': "#quot;",
+  "<": "#lt;",
+  ">": "#gt;",
+  "&": "#amp;",
+  "#": "#35;",
+};
+
+// Text for a Mermaid node or edge label, with characters Mermaid treats as syntax escaped.
+// Labels are drawn as HTML, so markup in report text is escaped too and shows as typed.
+export const escapeMermaidLabel = (text: string) =>
+  `"${text.replace(/\s+/g, " ").trim().replace(/["<>&#]/g, char => mermaidEntities[char])}"`;
+
+// What may follow a node: an edge, a separator or the end of the line
+const nodeEnd = /^\s*(?:$|;|&|:::|[ox<]?[-=.~]{2,})/;
+
+// Finds where a label opened at `start` closes. Prefers a closing token outside any
+// brackets opened inside the label, so "[Step [1] done]" closes at the last "]".
+function findLabelEnd(line: string, start: number, close: string): number {
+  if (line[start] === '"') {
+    const quoteEnd = line.indexOf('"', start + 1);
+    if (quoteEnd > start && line.startsWith(close, quoteEnd + 1)) return quoteEnd + 1;
+  }
+
+  let depth = 0;
+  let fallback = -1;
+  for (let k = start; k < line.length; k++) {
+    if (line.startsWith(close, k) && nodeEnd.test(line.slice(k + close.length))) {
+      if (depth === 0) return k;
+      if (fallback < 0) fallback = k;
+    }
+    if ("([{".includes(line[k])) depth++;
+    else if (")]}".includes(line[k])) depth = Math.max(0, depth - 1);
+  }
+  return fallback;
+}
+
+function quoteNodeLabels(line: string): string {
+  let out = "";
+  let i = 0;
+  while (i < line.length) {
+    const id = i === 0 || !/\w/.test(line[i - 1]) ? /^\w+/.exec(line.slice(i))?.[0] : undefined;
+    if (!id) {
+      out += line[i++];
+      continue;
+    }
+
+    const labelOpen = i + id.length;
+    const shape = shapes.find(([open]) => line.startsWith(open, labelOpen));
+    const labelStart = shape ? labelOpen + shape[0].length : -1;
+    const labelEnd = shape ? findLabelEnd(line, labelStart, shape[1]) : -1;
+    if (!shape || labelEnd <= labelStart) {
+      out += id;
+      i = labelOpen;
+      continue;
+    }
+
+    const [open, close] = shape;
+    out += `${id}${open}${quoteLabel(line.slice(labelStart, labelEnd))}${close}`;
+    i = labelEnd + close.length;
+  }
+  return out;
+}
+
+const isFlowchart = (source: string) =>
+  /^\s*(flowchart|graph)\b/.test(source.replace(/^\s*%%.*$/gm, "").trimStart());
+
+// Quotes every node and edge label in a flowchart so brackets, parentheses, quotes and
+// semicolons inside labels stop breaking the parser. Other diagram types are returned as is.
+export function quoteMermaidLabels(source: string): string {
+  if (!isFlowchart(source)) return source;
+
+  return source
+    .split("\n")
+    .map(line => {
+      if (/^\s*(%%|style\b|classDef\b|class\b|linkStyle\b|click\b)/.test(line)) return line;
+      return quoteNodeLabels(line.replace(/\|([^|]+)\|/g, (_match, label: string) => `|${quoteLabel(label)}|`));
+    })
+    .join("\n");
+}
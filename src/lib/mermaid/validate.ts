@@ -0,0 +1,45 @@
+export type MermaidError = {
+  message: string;
+  line?: number; // 1-based line in the Mermaid source
+  lineText?: string;
+};
+
+export type MermaidCheck = { ok: true } | { ok: false; error: MermaidError };
+
+// Mermaid touches the DOM on import, so it's only loaded in the browser and on first use
+let mermaidPromise: Promise<typeof import("mermaid").default> | null = null;
+
+export function loadMermaid() {
+  if (!mermaidPromise) {
+    mermaidPromise = import("mermaid").then(({ default: mermaid }) => {
+      // Diagrams are rendered in the app's own page, so labels must never carry live markup:
+      // "strict" sanitizes them and turns off click handlers
+      mermaid.initialize({ startOnLoad: false, securityLevel: "strict" });
+      return mermaid;
+    });
+  }
+  return mermaidPromise;
+}
+
+export function toMermaidError(source: string, error: unknown): MermaidError {
+  const message = error instanceof Error ? error.message : String(error);
+  const hashLine = (error as { hash?: { loc?: { first_line?: number } } })?.hash?.loc?.first_line;
+  const messageLine = /line (\d+)/i.exec(message)?.[1];
+  const line = hashLine ?? (messageLine ? Number(messageLine) : undefined);
+  return {
+    message,
+    line,
+    lineText: line !== undefined ? source.split("\n")[line - 1]?.trim() : undefined,
+  };
+}
+
+// Parses the source with Mermaid's own parser without rendering it.
+export async function validateMermaid(source: string): Promise<MermaidCheck> {
+  const mermaid = await loadMermaid();
+  try {
+    await mermaid.parse(source);
+    return { ok: true };
+  } catch (error) {
+    return { ok: false, error: toMermaidError(source, error) };
+  }
+}
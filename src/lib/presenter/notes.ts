@@ -0,0 +1,39 @@
+import { escapeHtml } from "../animation/html";
+
+export type NotesSlide = {
+  number: string;
+  heading: string;
+  bodyHtml: string; // already converted from markdown
+};
+
+// Empty shell for the presenter-notes window; renderNotes fills its body on every slide change
+export const notesDocument = `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>Presenter notes</title>
+  <style>
+    * { box-sizing: border-box; }
+    html, body { margin: 0; background: #0f172a; color: #e2e8f0; font-family: system-ui, -apple-system, sans-serif; }
+    body { padding: 24px 32px; }
+    .position { color: #94a3b8; font-size: 14px; }
+    h1 { font-size: 28px; margin: 4px 0 16px; }
+    .notes { font-size: 20px; line-height: 1.6; }
+    .notes table { border-collapse: collapse; }
+    .notes th, .notes td { border: 1px solid #475569; padding: 0.3em 0.6em; }
+    .notes img { max-width: 100%; }
+    .empty { color: #64748b; font-style: italic; }
+    .next { margin-top: 32px; padding-top: 16px; border-top: 1px solid #334155; color: #94a3b8; font-size: 16px; }
+  </style>
+</head>
+<body></body>
+</html>`;
+
+// Body of the notes window: the current section's text and what comes next
+export function renderNotes(slide: NotesSlide, position: number, total: number, next?: NotesSlide): string {
+  return `
+  <div class="position">Slide ${position} of ${total}</div>
+  <h1>${escapeHtml(`${slide.number}. ${slide.heading}`)}</h1>
+  <div class="notes">${slide.bodyHtml.trim() || '<p class="empty">No notes for this section.</p>'}</div>
+  <div class="next">${next ? `Next: ${escapeHtml(`${next.number}. ${next.heading}`)}` : "End of presentation"}</div>`;
+}
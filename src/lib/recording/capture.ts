@@ -0,0 +1,117 @@
+import { virtualClockScript } from "../canvas/clock";
+import { injectScript } from "../canvas/inject";
+
+// Runs inside the canvas frame during a recording. The page runs on a virtual clock, so
+// timers, requestAnimationFrame and CSS animations only move when the recorder asks for
+// the next frame, however long each frame takes to capture. Each frame is then
+// rasterized by drawing a copy of the DOM through an SVG <foreignObject>.
+//
+// Protocol (all messages carry a `type` starting with "capture:"):
+//   frame  -> parent: { type: "capture:ready" } once the page has loaded and settled
+//   parent -> frame:  { type: "capture:frame", index, time } with time in milliseconds
+//   frame  -> parent: { type: "capture:frame", index, bitmap } (the bitmap is transferred)
+//   frame  -> parent: { type: "capture:error", message }
+const captureScript = `
+(function () {
+${virtualClockScript}
+  var settled = false;
+
+  var keyframeMeta = { offset: 1, computedOffset: 1, easing: 1, composite: 1 };
+  var kebab = function (name) { return name === 'cssFloat' ? 'float' : name.replace(/[A-Z]/g, function (c) { return '-' + c.toLowerCase(); }); };
+
+  // Copies the document with each animated property frozen at its current computed value
+  function freezeDocument() {
+    var animated = new Map();
+    document.getAnimations().forEach(function (animation) {
+      var effect = animation.effect;
+      if (!effect || !effect.target || effect.pseudoElement) return;
+      var properties = animated.get(effect.target) || new Set();
+      effect.getKeyframes().forEach(function (keyframe) {
+        Object.keys(keyframe).forEach(function (name) { if (!keyframeMeta[name]) properties.add(kebab(name)); });
+      });
+      animated.set(effect.target, properties);
+    });
+
+    var root = document.documentElement;
+    var copy = root.cloneNode(true);
+    var originals = [root].concat(Array.from(root.querySelectorAll('*')));
+    var copies = [copy].concat(Array.from(copy.querySelectorAll('*')));
+    originals.forEach(function (original, i) {
+      var element = copies[i];
+      var properties = animated.get(original);
+      if (properties) {
+        var computed = getComputedStyle(original);
+        properties.forEach(function (name) { element.style.setProperty(name, computed.getPropertyValue(name), 'important'); });
+      }
+      if (original instanceof HTMLCanvasElement) {
+        var image = document.createElement('img');
+        try { image.src = original.toDataURL(); } catch (error) { /* a tainted canvas is left blank */ }
+        image.setAttribute('style', original.getAttribute('style') || '');
+        image.className = original.className;
+        image.width = original.clientWidth;
+        image.height = original.clientHeight;
+        element.replaceWith(image);
+      } else if (original instanceof HTMLScriptElement) {
+        element.remove();
+      }
+    });
+    var style = document.createElement('style');
+    style.textContent = '*, *::before, *::after { animation: none !important; transition: none !important; }';
+    (copy.querySelector('head') || copy).appendChild(style);
+    return copy;
+  }
+
+  function rasterize() {
+    var width = window.innerWidth;
+    var height = window.innerHeight;
+    var markup = new XMLSerializer().serializeToString(freezeDocument());
+    var svg = '<svg xmlns="http://www.w3.org/2000/svg" width="' + width + '" height="' + height + '">' +
+      '<foreignObject x="0" y="0" width="100%" height="100%">' + markup + '</foreignObject></svg>';
+    var image = new Image();
+    image.src = 'data:image/svg+xml;charset=utf-8,' + encodeURIComponent(svg);
+    return image.decode().then(function () {
+      var canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      var context = canvas.getContext('2d');
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, width, height);
+      context.drawImage(image, 0, 0, width, height);
+      return createImageBitmap(canvas);
+    });
+  }
+
+  var tick = function () { return new Promise(function (resolve) { clock.real.setTimeout(resolve, 0); }); };
+
+  function captureFrame(index, time) {
+    clock.advance(time);
+    // Let promise chains started by this frame's callbacks finish before drawing
+    return tick().then(rasterize).then(function (bitmap) {
+      parent.postMessage({ type: 'capture:frame', index: index, bitmap: bitmap }, '*', [bitmap]);
+    });
+  }
+
+  window.addEventListener('message', function (event) {
+    if (event.source !== parent || !event.data || event.data.type !== 'capture:frame' || !settled) return;
+    captureFrame(event.data.index, event.data.time).catch(function (error) {
+      parent.postMessage({ type: 'capture:error', message: 'Frame ' + event.data.index + ' could not be drawn: ' + (error && error.message || error) }, '*');
+    });
+  });
+
+  // Libraries like Mermaid render asynchronously after load, so give them a moment of real time
+  // (with zero-delay timers flushed) before the first frame
+  window.addEventListener('load', function () {
+    var rounds = 0;
+    var settle = function () {
+      clock.runTimers(0);
+      if (++rounds < 8) return clock.real.setTimeout(settle, 60);
+      settled = true;
+      parent.postMessage({ type: 'capture:ready' }, '*');
+    };
+    (document.fonts ? document.fonts.ready : Promise.resolve()).then(settle);
+  });
+})();
+`;
+
+// Adds the capture script ahead of the document's own scripts
+export const withCaptureScript = (html: string) => injectScript(html, captureScript);
@@ -0,0 +1,86 @@
+import { Encoder } from "modern-gif";
+import { ArrayBufferTarget, Muxer } from "webm-muxer";
+import { videoMimeTypes, type VideoFormat } from "./settings";
+
+export type FrameEncoder = {
+  addFrame: (bitmap: ImageBitmap, index: number) => Promise<void>;
+  finish: () => Promise<Blob>;
+  close: () => void;
+};
+
+// WebCodecs id and the matching WebM codec id, best first
+const webmCodecs = [
+  { id: "vp09.00.10.08", container: "V_VP9" },
+  { id: "vp8", container: "V_VP8" },
+];
+
+async function createWebmEncoder(width: number, height: number, fps: number): Promise<FrameEncoder> {
+  if (typeof VideoEncoder === "undefined") {
+    throw new Error("This browser can't encode video. Export a GIF instead, or use a recent Chrome, Edge or Firefox.");
+  }
+  const bitrate = Math.round(width * height * fps * 0.08);
+  let codec: (typeof webmCodecs)[number] | undefined;
+  for (const candidate of webmCodecs) {
+    const { supported } = await VideoEncoder.isConfigSupported({ codec: candidate.id, width, height, bitrate, framerate: fps });
+    if (supported) {
+      codec = candidate;
+      break;
+    }
+  }
+  if (!codec) throw new Error(`This browser can't encode WebM at ${width}×${height}. Try a lower resolution or a GIF.`);
+
+  const muxer = new Muxer({
+    target: new ArrayBufferTarget(),
+    video: { codec: codec.container, width, height, frameRate: fps },
+  });
+  let failure: Error | null = null;
+  const encoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    error: (error) => {
+      failure = error;
+    },
+  });
+  encoder.configure({ codec: codec.id, width, height, bitrate, framerate: fps });
+
+  const frameDuration = 1_000_000 / fps; // microseconds
+  return {
+    addFrame: async (bitmap, index) => {
+      if (failure) throw failure;
+      const frame = new VideoFrame(bitmap, { timestamp: Math.round(index * frameDuration), duration: Math.round(frameDuration) });
+      // A keyframe every two seconds keeps the file seekable
+      encoder.encode(frame, { keyFrame: index % (fps * 2) === 0 });
+      frame.close();
+    },
+    finish: async () => {
+      await encoder.flush();
+      if (failure) throw failure;
+      muxer.finalize();
+      return new Blob([muxer.target.buffer], { type: videoMimeTypes.webm });
+    },
+    close: () => {
+      if (encoder.state !== "closed") encoder.close();
+    },
+  };
+}
+
+function createGifEncoder(width: number, height: number, fps: number): FrameEncoder {
+  const encoder = new Encoder({ width, height, maxColors: 255 });
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d", { willReadFrequently: true })!;
+  const delay = Math.round(1000 / fps);
+
+  return {
+    addFrame: async (bitmap) => {
+      context.drawImage(bitmap, 0, 0, width, height);
+      await encoder.encode({ data: context.getImageData(0, 0, width, height).data, delay });
+    },
+    finish: async () => new Blob([await encoder.flush("arrayBuffer")], { type: videoMimeTypes.gif }),
+    close: () => {},
+  };
+}
+
+export async function createFrameEncoder(format: VideoFormat, width: number, height: number, fps: number): Promise<FrameEncoder> {
+  return format === "gif" ? createGifEncoder(width, height, fps) : createWebmEncoder(width, height, fps);
+}
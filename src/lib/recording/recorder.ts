@@ -0,0 +1,90 @@
+import { withCaptureScript } from "./capture";
+import { createFrameEncoder } from "./encoders";
+import { RESOLUTIONS, type RecordingSettings } from "./settings";
+
+type CaptureMessage =
+  | { type: "capture:ready" }
+  | { type: "capture:frame"; index: number; bitmap: ImageBitmap }
+  | { type: "capture:error"; message: string };
+
+const READY_TIMEOUT_MS = 20_000;
+const FRAME_TIMEOUT_MS = 10_000;
+
+// Resolves with the next message of `type` from the frame. A capture error, the timeout or
+// the signal rejects instead.
+function nextMessage<T extends CaptureMessage["type"]>(
+  frame: HTMLIFrameElement,
+  type: T,
+  timeoutMs: number,
+  timeoutMessage: string,
+  signal?: AbortSignal
+): Promise<Extract<CaptureMessage, { type: T }>> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      window.removeEventListener("message", onMessage);
+      signal?.removeEventListener("abort", onAbort);
+      clearTimeout(timer);
+    };
+    const onMessage = (event: MessageEvent) => {
+      const message = event.data as CaptureMessage;
+      if (event.source !== frame.contentWindow || (message?.type !== type && message?.type !== "capture:error")) return;
+      cleanup();
+      if (message.type === "capture:error") reject(new Error(message.message));
+      else resolve(message as Extract<CaptureMessage, { type: T }>);
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new Error(timeoutMessage));
+    }, timeoutMs);
+    if (signal?.aborted) return onAbort();
+    window.addEventListener("message", onMessage);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Renders a canvas document frame by frame on a virtual clock (see capture.ts) and encodes
+// the frames, entirely in the browser. Frames take longer than real time to capture, but
+// the result plays back at the chosen rate.
+export async function recordCanvas(
+  html: string,
+  settings: RecordingSettings,
+  { signal, onProgress }: { signal?: AbortSignal; onProgress?: (fraction: number) => void } = {}
+): Promise<Blob> {
+  const { width, height } = RESOLUTIONS[settings.resolution];
+  const frameCount = Math.max(1, Math.round(settings.durationSeconds * settings.fps));
+  const encoder = await createFrameEncoder(settings.format, width, height, settings.fps);
+
+  // Laid out at full size but off screen; a hidden frame wouldn't render at all
+  const frame = document.createElement("iframe");
+  frame.setAttribute("sandbox", "allow-scripts");
+  frame.setAttribute("aria-hidden", "true");
+  frame.tabIndex = -1;
+  Object.assign(frame.style, { position: "fixed", left: "-100000px", top: "0", width: `${width}px`, height: `${height}px`, border: "0" });
+
+  try {
+    const ready = nextMessage(frame, "capture:ready", READY_TIMEOUT_MS, "The canvas didn't finish loading.", signal);
+    frame.srcdoc = withCaptureScript(html);
+    document.body.appendChild(frame);
+    await ready;
+
+    for (let index = 0; index < frameCount; index++) {
+      const captured = nextMessage(frame, "capture:frame", FRAME_TIMEOUT_MS, `Frame ${index + 1} took too long to draw.`, signal);
+      frame.contentWindow!.postMessage({ type: "capture:frame", index, time: (index * 1000) / settings.fps }, "*");
+      const { bitmap } = await captured;
+      try {
+        await encoder.addFrame(bitmap, index);
+      } finally {
+        bitmap.close();
+      }
+      onProgress?.((index + 1) / frameCount);
+    }
+    return await encoder.finish();
+  } finally {
+    frame.remove();
+    encoder.close();
+  }
+}
@@ -0,0 +1,61 @@
+export type VideoFormat = "webm" | "gif";
+
+export const RESOLUTIONS = {
+  "360p": { width: 640, height: 360 },
+  "480p": { width: 854, height: 480 },
+  "720p": { width: 1280, height: 720 },
+  "1080p": { width: 1920, height: 1080 },
+} as const;
+
+export type Resolution = keyof typeof RESOLUTIONS;
+
+export const FRAME_RATES = [10, 15, 24, 30] as const;
+
+export type RecordingSettings = {
+  format: VideoFormat;
+  durationSeconds: number;
+  resolution: Resolution;
+  fps: number;
+};
+
+export const DEFAULT_RECORDING: RecordingSettings = {
+  format: "webm",
+  durationSeconds: 6,
+  resolution: "720p",
+  fps: 30,
+};
+
+export const MIN_DURATION_SECONDS = 1;
+export const MAX_DURATION_SECONDS = 30;
+
+// GIF frames are held in memory until the palette is built, so GIFs stay small
+export const GIF_RESOLUTIONS: Resolution[] = ["360p", "480p"];
+export const MAX_GIF_FPS = 15;
+
+export const videoFormatLabels: Record<VideoFormat, string> = {
+  webm: "WebM video",
+  gif: "Animated GIF",
+};
+
+export const videoMimeTypes: Record<VideoFormat, string> = {
+  webm: "video/webm",
+  gif: "image/gif",
+};
+
+// Brings settings from storage or the form back within what each format supports
+export function normalizeRecordingSettings(settings: Partial<RecordingSettings>): RecordingSettings {
+  const format = settings.format === "gif" ? "gif" : "webm";
+  let resolution = settings.resolution && settings.resolution in RESOLUTIONS ? settings.resolution : DEFAULT_RECORDING.resolution;
+  let fps = FRAME_RATES.find(rate => rate === settings.fps) ?? DEFAULT_RECORDING.fps;
+  if (format === "gif") {
+    if (!GIF_RESOLUTIONS.includes(resolution)) resolution = GIF_RESOLUTIONS[GIF_RESOLUTIONS.length - 1];
+    fps = Math.min(fps, MAX_GIF_FPS);
+  }
+  const duration = Number(settings.durationSeconds) || DEFAULT_RECORDING.durationSeconds;
+  return {
+    format,
+    resolution,
+    fps,
+    durationSeconds: Math.min(MAX_DURATION_SECONDS, Math.max(MIN_DURATION_SECONDS, duration)),
+  };
+}
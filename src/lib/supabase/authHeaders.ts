@@ -0,0 +1,9 @@
+import { supabase } from "./supabaseClient";
+
+// The signed-in user's access token, for calls to the app's own API routes (see
+// authenticateRequest). Empty when nobody is signed in, which those routes refuse.
+export async function authHeaders(): Promise<Record<string, string>> {
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
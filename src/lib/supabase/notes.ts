@@ -0,0 +1,56 @@
+import { supabase } from "./supabaseClient";
+
+export type Note = {
+  id: string;
+  text: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+type NoteRow = {
+  id: string;
+  text: string;
+  created_at: string;
+  updated_at: string;
+};
+
+const noteColumns = "id, text, created_at, updated_at";
+
+const toNote = (row: NoteRow): Note => ({
+  id: row.id,
+  text: row.text,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+// The signed-in user's notes, newest first. A query is matched against the words of
+// each note (web-search syntax: quoted phrases, `or`, `-word`).
+export async function listNotes(query: string = ""): Promise<Note[]> {
+  let request = supabase.from("notes").select(noteColumns);
+  if (query.trim()) request = request.textSearch("search", query.trim(), { type: "websearch", config: "english" });
+  const { data, error } = await request.order("created_at", { ascending: false }).returns<NoteRow[]>();
+  if (error) throw error;
+  return data.map(toNote);
+}
+
+export async function createNote(text: string): Promise<Note> {
+  const { data, error } = await supabase.from("notes").insert({ text }).select(noteColumns).single<NoteRow>();
+  if (error) throw error;
+  return toNote(data);
+}
+
+export async function updateNote(noteId: string, text: string): Promise<Note> {
+  const { data, error } = await supabase
+    .from("notes")
+    .update({ text })
+    .eq("id", noteId)
+    .select(noteColumns)
+    .single<NoteRow>();
+  if (error) throw error;
+  return toNote(data);
+}
+
+export async function deleteNote(noteId: string): Promise<void> {
+  const { error } = await supabase.from("notes").delete().eq("id", noteId);
+  if (error) throw error;
+}
@@ -0,0 +1,181 @@
+import { supabase } from "./supabaseClient";
+import type { Section } from "../markdown/sections";
+import type { RevisionKind } from "./revisions";
+
+export type ProjectSummary = {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type Project = ProjectSummary & {
+  rawMarkdown: string;
+  canvasDepth: number;
+  orphans: Section[];
+};
+
+type ProjectRow = {
+  id: string;
+  title: string;
+  raw_markdown: string;
+  canvas_depth: number;
+  orphans: Section[];
+  created_at: string;
+  updated_at: string;
+};
+
+type SectionRow = {
+  project_id: string;
+  id: string;
+  position: number;
+  heading: string;
+  level: number;
+  parent_id: string | null;
+  body: string;
+  blocks: Section["blocks"];
+  code: string | null;
+  mermaid_code: string | null;
+  chart_spec: string | null;
+  canvas_kind: RevisionKind | null;
+  template_id: string | null;
+};
+
+const summaryColumns = "id, title, created_at, updated_at";
+
+const toSummary = (row: Pick<ProjectRow, "id" | "title" | "created_at" | "updated_at">): ProjectSummary => ({
+  id: row.id,
+  title: row.title,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const toSection = (row: SectionRow): Section => ({
+  id: row.id,
+  heading: row.heading,
+  level: row.level,
+  parentId: row.parent_id,
+  body: row.body,
+  blocks: row.blocks,
+  code: row.code ?? undefined,
+  mermaidCode: row.mermaid_code ?? undefined,
+  chartSpec: row.chart_spec ?? undefined,
+  canvasKind: row.canvas_kind ?? undefined,
+  templateId: row.template_id ?? undefined,
+});
+
+const toSectionRow = (projectId: string, section: Section, position: number): SectionRow => ({
+  project_id: projectId,
+  id: section.id,
+  position,
+  heading: section.heading,
+  level: section.level,
+  parent_id: section.parentId,
+  body: section.body,
+  blocks: section.blocks,
+  code: section.code ?? null,
+  mermaid_code: section.mermaidCode ?? null,
+  chart_spec: section.chartSpec ?? null,
+  canvas_kind: section.canvasKind ?? null,
+  template_id: section.templateId ?? null,
+});
+
+export async function listProjects(): Promise<ProjectSummary[]> {
+  const { data, error } = await supabase
+    .from("projects")
+    .select(summaryColumns)
+    .order("updated_at", { ascending: false });
+  if (error) throw error;
+  return data.map(toSummary);
+}
+
+export async function createProject(title = "Untitled report"): Promise<ProjectSummary> {
+  const { data, error } = await supabase.from("projects").insert({ title }).select(summaryColumns).single();
+  if (error) throw error;
+  return toSummary(data);
+}
+
+export async function loadProject(projectId: string): Promise<{ project: Project; sections: Section[] }> {
+  const [projectResult, sectionsResult] = await Promise.all([
+    supabase.from("projects").select("*").eq("id", projectId).single<ProjectRow>(),
+    supabase.from("sections").select("*").eq("project_id", projectId).order("position").returns<SectionRow[]>(),
+  ]);
+  if (projectResult.error) throw projectResult.error;
+  if (sectionsResult.error) throw sectionsResult.error;
+
+  const row = projectResult.data;
+  return {
+    project: {
+      ...toSummary(row),
+      rawMarkdown: row.raw_markdown,
+      canvasDepth: row.canvas_depth,
+      orphans: row.orphans,
+    },
+    sections: sectionsResult.data.map(toSection),
+  };
+}
+
+export async function saveProject(
+  projectId: string,
+  changes: Partial<Pick<Project, "title" | "rawMarkdown" | "canvasDepth" | "orphans">>
+): Promise<void> {
+  const { error } = await supabase
+    .from("projects")
+    .update({
+      title: changes.title,
+      raw_markdown: changes.rawMarkdown,
+      canvas_depth: changes.canvasDepth,
+      orphans: changes.orphans,
+    })
+    .eq("id", projectId);
+  if (error) throw error;
+}
+
+export const renameProject = (projectId: string, title: string) => saveProject(projectId, { title });
+
+// Upserts the given sections (with their list positions) and removes the ones in `removedIds`.
+export async function saveSections(
+  projectId: string,
+  changed: { section: Section; position: number }[],
+  removedIds: string[]
+): Promise<void> {
+  if (changed.length > 0) {
+    const { error } = await supabase
+      .from("sections")
+      .upsert(changed.map(({ section, position }) => toSectionRow(projectId, section, position)));
+    if (error) throw error;
+  }
+  if (removedIds.length > 0) {
+    const { error } = await supabase
+      .from("sections")
+      .delete()
+      .eq("project_id", projectId)
+      .in("id", removedIds);
+    if (error) throw error;
+  }
+}
+
+export async function duplicateProject(projectId: string): Promise<ProjectSummary> {
+  const { project, sections } = await loadProject(projectId);
+  const { data, error } = await supabase
+    .from("projects")
+    .insert({
+      title: `Copy of ${project.title}`,
+      raw_markdown: project.rawMarkdown,
+      canvas_depth: project.canvasDepth,
+      orphans: project.orphans,
+    })
+    .select(summaryColumns)
+    .single();
+  if (error) throw error;
+
+  const copy = toSummary(data);
+  await saveSections(copy.id, sections.map((section, position) => ({ section, position })), []);
+  return copy;
+}
+
+export async function deleteProject(projectId: string): Promise<void> {
+  // Sections are removed by the foreign key's ON DELETE CASCADE
+  const { error } = await supabase.from("projects").delete().eq("id", projectId);
+  if (error) throw error;
+}
@@ -0,0 +1,87 @@
+import { supabase } from "./supabaseClient";
+import type { Section } from "../markdown/sections";
+
+export type RevisionKind = "code" | "mermaid" | "chart";
+
+export type RevisionSource = "manual" | "template" | "ai" | "ai-chat" | "restore";
+
+export type Revision = {
+  id: string;
+  sectionId: string;
+  kind: RevisionKind;
+  content: string;
+  source: RevisionSource;
+  createdAt: string;
+};
+
+type RevisionRow = {
+  id: string;
+  section_id: string;
+  kind: RevisionKind;
+  content: string;
+  source: RevisionSource;
+  created_at: string;
+};
+
+// Section field that holds each kind of canvas
+export const revisionFields = {
+  code: "code",
+  mermaid: "mermaidCode",
+  chart: "chartSpec",
+} as const satisfies Record<RevisionKind, keyof Section>;
+
+export const revisionSourceLabels: Record<RevisionSource, string> = {
+  manual: "Manual edit",
+  template: "Template",
+  ai: "AI generated",
+  "ai-chat": "AI chat",
+  restore: "Restored",
+};
+
+const toRevision = (row: RevisionRow): Revision => ({
+  id: row.id,
+  sectionId: row.section_id,
+  kind: row.kind,
+  content: row.content,
+  source: row.source,
+  createdAt: row.created_at,
+});
+
+export async function recordRevision(
+  projectId: string,
+  sectionId: string,
+  kind: RevisionKind,
+  content: string,
+  source: RevisionSource
+): Promise<Revision> {
+  const { data, error } = await supabase
+    .from("section_revisions")
+    .insert({ project_id: projectId, section_id: sectionId, kind, content, source })
+    .select("id, section_id, kind, content, source, created_at")
+    .single<RevisionRow>();
+  if (error) throw error;
+  return toRevision(data);
+}
+
+// Newest first
+export async function listRevisions(projectId: string, sectionId: string): Promise<Revision[]> {
+  const { data, error } = await supabase
+    .from("section_revisions")
+    .select("id, section_id, kind, content, source, created_at")
+    .eq("project_id", projectId)
+    .eq("section_id", sectionId)
+    .order("created_at", { ascending: false })
+    .returns<RevisionRow[]>();
+  if (error) throw error;
+  return data.map(toRevision);
+}
+
+// Keeps a section's history attached when a re-parse or reattach moves its canvas to a new ID.
+export async function moveRevisions(projectId: string, fromSectionId: string, toSectionId: string): Promise<void> {
+  const { error } = await supabase
+    .from("section_revisions")
+    .update({ section_id: toSectionId })
+    .eq("project_id", projectId)
+    .eq("section_id", fromSectionId);
+  if (error) throw error;
+}
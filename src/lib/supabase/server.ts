@@ -0,0 +1,27 @@
+import { createClient, type SupabaseClient, type User } from "@supabase/supabase-js";
+import { NextResponse } from "next/server";
+
+// Server-side only. API routes don't share the browser's session, so the client sends its
+// access token as `Authorization: Bearer <token>` (see authHeaders).
+
+export type AuthenticatedRequest = {
+  user: User;
+  supabase: SupabaseClient; // acts as the user, so row-level security applies
+};
+
+// Verifies the request's access token with Supabase. Null when it's missing, expired or forged.
+export async function authenticateRequest(req: Request): Promise<AuthenticatedRequest | null> {
+  const token = /^Bearer\s+(.+)$/i.exec(req.headers.get("authorization") ?? "")?.[1];
+  if (!token) return null;
+
+  const supabase = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL as string, process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY as string, {
+    global: { headers: { Authorization: `Bearer ${token}` } },
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return null;
+  return { user: data.user, supabase };
+}
+
+export const unauthorizedResponse = () =>
+  NextResponse.json({ error: "Sign in to use this feature." }, { status: 401 });
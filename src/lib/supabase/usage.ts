@@ -0,0 +1,59 @@
+import { supabase } from "./supabaseClient";
+import { toUsageTotals, type UsageTotals } from "../usage/limits";
+
+export type UsageEntry = {
+  id: string;
+  route: string;
+  provider: string | null;
+  model: string | null;
+  inputTokens: number;
+  outputTokens: number;
+  audioSeconds: number;
+  images: number;
+  ok: boolean;
+  createdAt: string;
+};
+
+type UsageRow = {
+  id: string;
+  route: string;
+  provider: string | null;
+  model: string | null;
+  input_tokens: number;
+  output_tokens: number;
+  audio_seconds: number | string;
+  images: number;
+  ok: boolean;
+  created_at: string;
+};
+
+const toUsageEntry = (row: UsageRow): UsageEntry => ({
+  id: row.id,
+  route: row.route,
+  provider: row.provider,
+  model: row.model,
+  inputTokens: row.input_tokens,
+  outputTokens: row.output_tokens,
+  audioSeconds: Number(row.audio_seconds),
+  images: row.images,
+  ok: row.ok,
+  createdAt: row.created_at,
+});
+
+// The signed-in user's totals since `since`
+export async function loadUsageTotals(since: Date): Promise<UsageTotals> {
+  const { data, error } = await supabase.rpc("usage_totals", { since: since.toISOString() });
+  if (error) throw error;
+  return toUsageTotals(data?.[0]);
+}
+
+// The signed-in user's most recent requests, newest first
+export async function listUsage(limit: number = 50): Promise<UsageEntry[]> {
+  const { data, error } = await supabase
+    .from("ai_usage")
+    .select("id, route, provider, model, input_tokens, output_tokens, audio_seconds, images, ok, created_at")
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return (data as UsageRow[]).map(toUsageEntry);
+}
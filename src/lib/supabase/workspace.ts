@@ -0,0 +1,21 @@
+import { supabase } from "./supabaseClient";
+import { mergeClassifierRules, type ClassifierRules } from "../classifier/rules";
+
+// The workspace's classifier keywords, with the defaults filled in for any category
+// it hasn't customised
+export async function loadClassifierRules(): Promise<ClassifierRules> {
+  const { data, error } = await supabase
+    .from("workspace_settings")
+    .select("classifier_rules")
+    .maybeSingle<{ classifier_rules: Record<string, unknown> }>();
+  if (error) throw error;
+  return mergeClassifierRules(data?.classifier_rules);
+}
+
+// Stores keyword overrides; categories missing from `overrides` go back to the defaults
+export async function saveClassifierRules(overrides: Partial<ClassifierRules>): Promise<void> {
+  const { error } = await supabase
+    .from("workspace_settings")
+    .upsert({ classifier_rules: overrides }, { onConflict: "user_id" });
+  if (error) throw error;
+}
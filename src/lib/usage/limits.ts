@@ -0,0 +1,36 @@
+// Usage of the AI routes, shared by the routes (which meter it) and the usage page.
+
+// What each daily quota counts
+export type UsageKind = "tokens" | "audioSeconds" | "images";
+
+export type UsageTotals = {
+  requests: number;
+  tokens: number; // input plus output
+  audioSeconds: number;
+  images: number;
+};
+
+export type UsageLimits = {
+  requestsPerMinute: number; // across all AI routes
+  daily: Record<UsageKind, number>; // per UTC day
+};
+
+export const usageKindLabels: Record<UsageKind, string> = {
+  tokens: "Tokens",
+  audioSeconds: "Audio seconds",
+  images: "Images",
+};
+
+// Quotas reset at midnight UTC
+export const startOfUsageDay = (now: Date = new Date()) =>
+  new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+
+type UsageTotalsRow = { requests: number | string; tokens: number | string; audio_seconds: number | string; images: number | string };
+
+// Row from the usage_totals function; Postgres bigints and numerics arrive as strings or numbers
+export const toUsageTotals = (row: UsageTotalsRow | undefined): UsageTotals => ({
+  requests: Number(row?.requests ?? 0),
+  tokens: Number(row?.tokens ?? 0),
+  audioSeconds: Number(row?.audio_seconds ?? 0),
+  images: Number(row?.images ?? 0),
+});
@@ -0,0 +1,135 @@
+import type { User } from "@supabase/supabase-js";
+import { NextResponse } from "next/server";
+import { authenticateRequest, unauthorizedResponse } from "../supabase/server";
+import { startOfUsageDay, toUsageTotals, usageKindLabels, type UsageKind, type UsageLimits } from "./limits";
+
+// Server-side only: signs in, rate-limits and meters the AI routes.
+//
+//   USAGE_REQUESTS_PER_MINUTE   requests per user per minute across the AI routes (20)
+//   USAGE_DAILY_TOKENS          LLM input plus output tokens per user per UTC day (200000)
+//   USAGE_DAILY_AUDIO_SECONDS   seconds of transcribed audio per user per UTC day (1800)
+//   USAGE_DAILY_IMAGES          generated images per user per UTC day (20)
+
+const limit = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const usageLimits = (): UsageLimits => ({
+  requestsPerMinute: limit(process.env.USAGE_REQUESTS_PER_MINUTE, 20),
+  daily: {
+    tokens: limit(process.env.USAGE_DAILY_TOKENS, 200_000),
+    audioSeconds: limit(process.env.USAGE_DAILY_AUDIO_SECONDS, 1800),
+    images: limit(process.env.USAGE_DAILY_IMAGES, 20),
+  },
+});
+
+export type RequestUsage = {
+  provider?: string;
+  model?: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  audioSeconds?: number;
+  images?: number;
+  ok?: boolean; // false when the provider call failed; it still counts toward the rate limit
+};
+
+export type UsageMeter = {
+  user: User;
+  // Fills in the request's usage row. Never throws: a response that was served isn't
+  // failed for want of a usage row
+  record: (usage: RequestUsage) => Promise<void>;
+};
+
+const limitResponse = (error: string, retryAfterSeconds: number) =>
+  NextResponse.json({ error }, { status: 429, headers: { "Retry-After": String(Math.ceil(retryAfterSeconds)) } });
+
+const usageColumns = (usage: RequestUsage) => ({
+  provider: usage.provider ?? null,
+  model: usage.model ?? null,
+  input_tokens: Math.round(usage.inputTokens || 0),
+  output_tokens: Math.round(usage.outputTokens || 0),
+  audio_seconds: usage.audioSeconds || 0,
+  images: usage.images || 0,
+  ok: usage.ok ?? true,
+  finished_at: new Date().toISOString(),
+});
+
+// Gate for an AI route: the caller must be signed in, under the per-minute rate limit and
+// under today's quota for `kind`. Returns the response to send instead when they aren't,
+// otherwise a meter to record the request's usage with once the provider has answered.
+// The request's usage row is written first and counted along with the rest, so
+// concurrent requests can't all slip in under the limit; it stays marked as failed
+// unless the route records otherwise, and refused requests count too.
+export async function meterRequest(req: Request, kind: UsageKind): Promise<UsageMeter | Response> {
+  const auth = await authenticateRequest(req);
+  if (!auth) return unauthorizedResponse();
+  const { user, supabase } = auth;
+  const limits = usageLimits();
+  const route = new URL(req.url).pathname;
+
+  let usageId: string;
+  try {
+    const now = new Date();
+    const { data: reserved, error: reserveError } = await supabase
+      .from("ai_usage")
+      .insert({ user_id: user.id, route, ok: false })
+      .select("id")
+      .single();
+    if (reserveError) throw reserveError;
+    usageId = reserved.id;
+
+    const refuse = async (error: string, retryAfterSeconds: number) => {
+      const { error: finishError } = await supabase
+        .from("ai_usage")
+        .update({ finished_at: new Date().toISOString() })
+        .eq("id", usageId);
+      if (finishError) console.error("Error recording usage:", finishError);
+      return limitResponse(error, retryAfterSeconds);
+    };
+
+    // This request's own row is among them
+    const { count, error: countError } = await supabase
+      .from("ai_usage")
+      .select("id", { count: "exact", head: true })
+      .gte("created_at", new Date(now.getTime() - 60_000).toISOString());
+    if (countError) throw countError;
+    if ((count ?? 0) > limits.requestsPerMinute) {
+      return refuse(`Too many requests: the limit is ${limits.requestsPerMinute} a minute. Try again shortly.`, 60);
+    }
+
+    const dayStart = startOfUsageDay(now);
+    const { data, error: totalsError } = await supabase.rpc("usage_totals", { since: dayStart.toISOString() });
+    if (totalsError) throw totalsError;
+    const used = toUsageTotals(data?.[0])[kind];
+    if (used >= limits.daily[kind]) {
+      const untilReset = (dayStart.getTime() + 86_400_000 - now.getTime()) / 1000;
+      return refuse(
+        `You've reached today's limit of ${limits.daily[kind]} ${usageKindLabels[kind].toLowerCase()}. It resets at midnight UTC.`,
+        untilReset
+      );
+    }
+  } catch (error) {
+    console.error("Error checking usage:", error);
+    return NextResponse.json({ error: "Couldn't check your usage. Try again shortly." }, { status: 503 });
+  }
+
+  return {
+    user,
+    record: async usage => {
+      const { data, error } = await supabase
+        .from("ai_usage")
+        .update(usageColumns(usage))
+        .eq("id", usageId)
+        .is("finished_at", null)
+        .select("id");
+      if (error) console.error("Error recording usage:", error);
+      // Finished already (recorded twice, or by someone else with the user's token):
+      // the usage still goes in, as a row of its own
+      else if (data.length === 0) {
+        const { error: insertError } = await supabase.from("ai_usage").insert({ user_id: user.id, route, ...usageColumns(usage) });
+        if (insertError) console.error("Error recording usage:", insertError);
+      }
+    },
+  };
+}
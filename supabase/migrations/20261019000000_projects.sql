@@ -0,0 +1,65 @@
+-- Animator projects: one markdown report per project, one row per parsed section.
+
+create table public.projects (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  title text not null default 'Untitled report',
+  raw_markdown text not null default '',
+  canvas_depth smallint not null default 6,
+  orphans jsonb not null default '[]'::jsonb, -- canvases left without a section by a re-parse
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index projects_user_id_updated_at_idx on public.projects (user_id, updated_at desc);
+
+create table public.sections (
+  project_id uuid not null references public.projects (id) on delete cascade,
+  id text not null, -- heading path from the markdown parser
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  position integer not null,
+  heading text not null,
+  level smallint not null,
+  parent_id text,
+  body text not null default '',
+  blocks jsonb not null default '[]'::jsonb,
+  code text,
+  mermaid_code text,
+  updated_at timestamptz not null default now(),
+  primary key (project_id, id)
+);
+
+create or replace function public.touch_updated_at() returns trigger
+language plpgsql as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+create trigger projects_touch_updated_at before update on public.projects
+  for each row execute function public.touch_updated_at();
+
+create trigger sections_touch_updated_at before update on public.sections
+  for each row execute function public.touch_updated_at();
+
+-- Row-level security: every project and section is visible to its owner only.
+
+alter table public.projects enable row level security;
+alter table public.sections enable row level security;
+
+create policy "Users manage their own projects" on public.projects
+  for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Users manage sections of their own projects" on public.sections
+  for all
+  using (user_id = auth.uid())
+  with check (
+    user_id = auth.uid()
+    and exists (
+      select 1 from public.projects p
+      where p.id = project_id and p.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,28 @@
+-- Append-only history of every saved or generated canvas for a section.
+
+create table public.section_revisions (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects (id) on delete cascade,
+  section_id text not null, -- heading path; moved along when a re-parse renames the section
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  kind text not null, -- which canvas field: 'code' or 'mermaid'
+  content text not null,
+  source text not null, -- what produced it: 'manual', 'template', 'ai-chat', 'restore'
+  created_at timestamptz not null default now()
+);
+
+create index section_revisions_section_idx
+  on public.section_revisions (project_id, section_id, created_at desc);
+
+alter table public.section_revisions enable row level security;
+
+create policy "Users manage revisions of their own projects" on public.section_revisions
+  for all
+  using (user_id = auth.uid())
+  with check (
+    user_id = auth.uid()
+    and exists (
+      select 1 from public.projects p
+      where p.id = project_id and p.user_id = auth.uid()
+    )
+  );
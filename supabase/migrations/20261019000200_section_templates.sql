@@ -0,0 +1,4 @@
+-- Animation template chosen per section; null lets the app pick one from the content.
+
+alter table public.sections
+  add column template_id text;
@@ -0,0 +1,7 @@
+-- Charts as a third canvas type, and which canvas a section shows.
+
+alter table public.sections
+  add column chart_spec text, -- chart data as JSON
+  add column canvas_kind text; -- 'code', 'mermaid' or 'chart'; null shows the first one present
+
+-- section_revisions.kind also takes 'chart' from here on; the column is free text.
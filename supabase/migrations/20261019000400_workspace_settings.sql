@@ -0,0 +1,18 @@
+-- Per-workspace settings. A workspace is a user's account; every project they own
+-- shares these.
+
+create table public.workspace_settings (
+  user_id uuid primary key default auth.uid() references auth.users (id) on delete cascade,
+  classifier_rules jsonb not null default '{}'::jsonb, -- keyword overrides per content category
+  updated_at timestamptz not null default now()
+);
+
+create trigger workspace_settings_touch_updated_at before update on public.workspace_settings
+  for each row execute function public.touch_updated_at();
+
+alter table public.workspace_settings enable row level security;
+
+create policy "Users manage their own workspace settings" on public.workspace_settings
+  for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
@@ -0,0 +1,24 @@
+-- Short-lived Deepgram keys issued by /api/deepgram, one per recording session. Rows
+-- are only ever added: the route counts a user's recent keys to enforce their limit.
+
+create table public.deepgram_keys (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  issuer text not null check (issuer in ('deepgram', 'local')),
+  key_id text not null, -- Deepgram's api_key_id; the key itself is never stored
+  scopes text[] not null,
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now()
+);
+
+create index deepgram_keys_user_created_idx on public.deepgram_keys (user_id, created_at desc);
+
+alter table public.deepgram_keys enable row level security;
+
+create policy "Users see their own Deepgram keys" on public.deepgram_keys
+  for select
+  using (user_id = auth.uid());
+
+create policy "Users record their own Deepgram keys" on public.deepgram_keys
+  for insert
+  with check (user_id = auth.uid());
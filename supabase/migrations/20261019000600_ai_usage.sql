@@ -0,0 +1,43 @@
+-- One row per request to an AI route, written by the route once the provider has
+-- answered. Rows are only ever added; the routes total them to enforce each user's
+-- per-minute rate limit and daily quotas, and the usage page lists them.
+
+create table public.ai_usage (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  route text not null, -- request path, e.g. /api/openai/chat
+  provider text,
+  model text,
+  input_tokens integer not null default 0,
+  output_tokens integer not null default 0,
+  audio_seconds numeric(10, 2) not null default 0,
+  images integer not null default 0,
+  ok boolean not null default true, -- false when the provider call failed
+  created_at timestamptz not null default now()
+);
+
+create index ai_usage_user_created_idx on public.ai_usage (user_id, created_at desc);
+
+alter table public.ai_usage enable row level security;
+
+create policy "Users see their own usage" on public.ai_usage
+  for select
+  using (user_id = auth.uid());
+
+create policy "Users record their own usage" on public.ai_usage
+  for insert
+  with check (user_id = auth.uid());
+
+-- The calling user's totals since a point in time
+create function public.usage_totals(since timestamptz)
+returns table (requests bigint, tokens bigint, audio_seconds numeric, images bigint)
+language sql stable security invoker
+as $$
+  select
+    count(*),
+    coalesce(sum(input_tokens + output_tokens), 0),
+    coalesce(sum(ai_usage.audio_seconds), 0),
+    coalesce(sum(ai_usage.images), 0)
+  from public.ai_usage
+  where user_id = auth.uid() and created_at >= since;
+$$;
@@ -0,0 +1,46 @@
+-- Voice notes recorded in the editor, owned by the user who recorded them. `search`
+-- backs full-text search over the note's text.
+--
+-- The recorder used to write unowned rows with only `text` and `timestamp` to a notes
+-- table that had no migration. Where that table exists it's kept as `notes_legacy`, with
+-- its indexes renamed to match so their names don't clash with the new table's. Its rows
+-- can't be given an owner, so row-level security is turned on with no policies: they're
+-- no longer readable with the anon key, only by the service role.
+
+do $$
+declare
+  legacy_index record;
+begin
+  if to_regclass('public.notes') is not null then
+    alter table public.notes rename to notes_legacy;
+    for legacy_index in
+      select indexname from pg_indexes where schemaname = 'public' and tablename = 'notes_legacy'
+    loop
+      execute format('alter index public.%I rename to %I', legacy_index.indexname, 'legacy_' || legacy_index.indexname);
+    end loop;
+    alter table public.notes_legacy enable row level security;
+  end if;
+end;
+$$;
+
+create table public.notes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  text text not null check (length(trim(text)) > 0),
+  search tsvector generated always as (to_tsvector('english', text)) stored,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index notes_user_created_idx on public.notes (user_id, created_at desc);
+create index notes_search_idx on public.notes using gin (search);
+
+create trigger notes_touch_updated_at before update on public.notes
+  for each row execute function public.touch_updated_at();
+
+alter table public.notes enable row level security;
+
+create policy "Users manage their own notes" on public.notes
+  for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
@@ -0,0 +1,40 @@
+-- Usage rows are now written when a request starts, before the provider is called, so
+-- requests still in flight (and ones that never finish) count toward the per-minute
+-- rate limit. This replaces the lifecycle described in 20261019000600_ai_usage.sql,
+-- where a row was only added once the provider had answered and never changed after.
+--
+-- A row's lifecycle now:
+--   1. The route inserts it as the request comes in, with `ok = false`, no usage and
+--      no `finished_at`.
+--   2. A request refused for the rate limit or a daily quota is finished there: it
+--      gets a `finished_at` and keeps `ok = false` and no usage.
+--   3. Otherwise the route records the outcome once, setting the usage, `ok` and
+--      `finished_at` together, when the provider answers or fails. A finished row is
+--      never updated again.
+--   4. If the row was already finished by then, the usage goes in as a new row that is
+--      finished when it's inserted.
+-- A row left without a `finished_at` is a request still in flight or one whose route
+-- never got to record it; either way it counts as a failed request.
+
+alter table public.ai_usage add column finished_at timestamptz;
+
+update public.ai_usage set finished_at = created_at;
+
+create policy "Users finish their own usage" on public.ai_usage
+  for update
+  using (user_id = auth.uid() and finished_at is null)
+  with check (user_id = auth.uid() and finished_at is not null);
+
+-- Finishing a row only fills in its usage: who made the request, where and when stay put
+create or replace function public.ai_usage_keep_request() returns trigger
+language plpgsql as $$
+begin
+  new.user_id = old.user_id;
+  new.route = old.route;
+  new.created_at = old.created_at;
+  return new;
+end;
+$$;
+
+create trigger ai_usage_keep_request before update on public.ai_usage
+  for each row execute function public.ai_usage_keep_request();
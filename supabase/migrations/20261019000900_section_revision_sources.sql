@@ -0,0 +1,13 @@
+-- The values section_revisions takes today, checked by the database instead of only
+-- described in comments:
+--   kind    which canvas field: 'code', 'mermaid' or 'chart' (charts came with 20261019000300)
+--   source  what produced it: 'manual', 'template', 'ai' (LLM-generated diagrams),
+--           'ai-chat' or 'restore'
+
+alter table public.section_revisions
+  add constraint section_revisions_kind_check
+  check (kind in ('code', 'mermaid', 'chart'));
+
+alter table public.section_revisions
+  add constraint section_revisions_source_check
+  check (source in ('manual', 'template', 'ai', 'ai-chat', 'restore'));